@@ -1,86 +1,208 @@
-import React, { useState, useEffect } from 'react';
-import { PlusCircle, X, ArrowRight, Play,  Check, Download, Upload, Moon, Sun, Save } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { PlusCircle, X, ArrowRight, Play,  Check, Download, Upload, Moon, Sun, Save, List, Share2, AlertTriangle, Undo2, Redo2, History, FolderOpen, ChevronDown, ClipboardList, Flame, FlaskConical, Command, GripVertical, Flag, Copy, Scissors, CopyPlus, ClipboardPaste, LayoutTemplate, Search } from 'lucide-react';
 import FlowSimulation from './components/FlowSimulation';
+import FlowCanvas from './components/FlowCanvas';
+import MarkdownEditor from './components/MarkdownEditor';
+import StepMetadataEditor from './components/StepMetadataEditor';
+import CommandPalette, { PaletteItem } from './components/CommandPalette';
+import TemplateLibrary from './components/TemplateLibrary';
+import ProblemsPanel from './components/ProblemsPanel';
+import HistoryPanel from './components/HistoryPanel';
+import FindReplacePanel from './components/FindReplacePanel';
+import FlowLibrary from './components/FlowLibrary';
+import ImportPreviewDialog from './components/ImportPreviewDialog';
+import ExportDialog from './components/ExportDialog';
+import SessionsPanel from './components/SessionsPanel';
+import TestCasesDialog from './components/TestCasesDialog';
+import { useHistory } from './hooks/useHistory';
+import { useDragReorder } from './hooks/useDragReorder';
 import { DarkModeProvider, useDarkMode } from './context/DarkModeContext';
 import { motion, AnimatePresence } from 'framer-motion';
+import { DecisionOutcome, InputPrompt, Step, StepPosition, StepResult, StepType, SubStepKind, VariableType } from './types/flow';
+import { SimulationSession } from './types/session';
+import { StepTemplate } from './types/template';
+import { computeLayout, LayoutDirection } from './utils/layout';
+import { validateFlow } from './utils/validation';
+import { getStartStep, isSubFlowStep } from './utils/flowEngine';
+import { generateId } from './utils/id';
+import { FlowFileParseResult, parseFlowFile, serializeFlowFile } from './utils/flowFile';
+import { IMPORT_FILE_ACCEPT, parseImportFile } from './utils/importers';
+import { MergeOptions, mergeSteps, pasteSteps } from './utils/merge';
+import { moveItem } from './utils/reorder';
+import { isEditableTarget } from './utils/keyboard';
+import { BUILT_IN_TEMPLATES, createTemplate, fillTemplate, loadTemplates, saveTemplates } from './utils/templates';
+import { FindMatch, FindOptions, replaceAll, replaceMatch } from './utils/findReplace';
+import {
+  Workspace,
+  createFlowMeta,
+  createFlowResolver,
+  deleteFlowSteps,
+  loadFlowSteps,
+  loadWorkspace,
+  saveFlowSteps,
+  saveWorkspace,
+  touchFlow
+} from './utils/workspace';
+import { addSession, loadSessions, saveSessions } from './utils/sessions';
+import { computeFlowAnalytics } from './utils/analytics';
+import { getFlowVariables } from './utils/variables';
+import { getImageReferences } from './utils/markdown';
+import {
+  SEVERITY_STYLES,
+  StepFilter,
+  StepMetadata,
+  getStepOwners,
+  getStepTags,
+  isStepFilterActive,
+  matchesStepFilter
+} from './utils/stepMetadata';
 
-// Types
-type StepType = 'normal' | 'success' | 'failure';
-
-interface SubStep {
-  id: string;
-  content: string;
-}
-
-interface Step {
-  id: string;
-  title: string;
-  type: StepType;
-  subSteps: {
-    id: string;
-    content: string;
-    successAction: 'next' | 'goto';
-    failureAction: 'next' | 'goto';
-    successStepId?: string;
-    failureStepId?: string;
-  }[];
-  expanded: boolean;
-  successStepId?: string;
-  failureStepId?: string;
-}
-
-const LOCAL_STORAGE_KEY = 'flowDiagramConfig';
+// What the app keeps in localStorage, each saved separately
+type SaveTarget = 'flow' | 'workspace' | 'sessions' | 'templates';
+
+// Adds or clears one target in the list of saves that are failing
+const trackSave = (failing: SaveTarget[], target: SaveTarget, saved: boolean) => {
+  if (saved) return failing.includes(target) ? failing.filter(other => other !== target) : failing;
+  return failing.includes(target) ? failing : [...failing, target];
+};
 
 // Main Component
 const FlowDiagramBuilder = () => {
   const { isDarkMode, toggleDarkMode } = useDarkMode();
-  const [steps, setSteps] = useState<Step[]>(() => {
-    // Load initial state from localStorage
-    const savedConfig = localStorage.getItem(LOCAL_STORAGE_KEY);
-    return savedConfig ? JSON.parse(savedConfig) : [];
-  });
+  const [workspace, setWorkspace] = useState<Workspace>(loadWorkspace);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [sessions, setSessions] = useState<SimulationSession[]>(loadSessions);
+  const [showSessions, setShowSessions] = useState(false);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [showTestCases, setShowTestCases] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [templates, setTemplates] = useState<StepTemplate[]>(loadTemplates);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    result: FlowFileParseResult;
+  } | null>(null);
+  const {
+    state: steps,
+    set: setSteps,
+    undo,
+    redo,
+    jumpTo,
+    entries: historyEntries,
+    index: historyIndex,
+    canUndo,
+    canRedo,
+    reset: resetHistory
+  } = useHistory<Step[]>(() => loadFlowSteps(workspace.activeFlowId), 'Loaded flow');
+  const [showHistory, setShowHistory] = useState(false);
+  const [showFind, setShowFind] = useState(false);
+  // What could not be saved, each cleared by its next save that works
+  const [failedSaves, setFailedSaves] = useState<SaveTarget[]>([]);
   const [newStepTitle, setNewStepTitle] = useState('');
-  const [isSimulating, setIsSimulating] = useState(false);
-  const [currentStepId, setCurrentStepId] = useState<string | null>(null);
-  const [simulationHistory, setSimulationHistory] = useState<Array<{
-    stepId: string;
-    result: 'success' | 'failure';
-    timestamp: number;
-  }>>([]);
   const [showSimulation, setShowSimulation] = useState(false);
   const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  const [selectedStepIds, setSelectedStepIds] = useState<string[]>([]);
+  const [view, setView] = useState<'details' | 'diagram'>('details');
+  const [stepFilter, setStepFilter] = useState<StepFilter>({});
+  const [keepOutsideLinks, setKeepOutsideLinks] = useState(true);
   const [lastAction, setLastAction] = useState<{
     type: 'add' | 'delete' | 'save' | 'update';
     message: string;
   } | null>(null);
 
+  const activeFlow = workspace.flows.find(flow => flow.id === workspace.activeFlowId)!;
+
   // Auto-save whenever steps change
   useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(steps));
-  }, [steps]);
+    const result = saveFlowSteps(workspace.activeFlowId, steps);
+    if (result === 'saved') {
+      setWorkspace(prev => touchFlow(prev, prev.activeFlowId));
+    }
+    setFailedSaves(prev => trackSave(prev, 'flow', result !== 'failed'));
+  }, [steps, workspace.activeFlowId]);
 
-  const selectedStep = steps.find(step => step.id === selectedStepId);
+  useEffect(() => {
+    const saved = saveWorkspace(workspace);
+    setFailedSaves(prev => trackSave(prev, 'workspace', saved));
+  }, [workspace]);
 
-  const generateId = () => Math.random().toString(36).substr(2, 9);
+  useEffect(() => {
+    const saved = saveSessions(sessions);
+    setFailedSaves(prev => trackSave(prev, 'sessions', saved));
+  }, [sessions]);
 
-  const addStep = (type: StepType = 'normal') => {
-    if (!newStepTitle.trim()) return;
+  useEffect(() => {
+    const saved = saveTemplates(templates);
+    setFailedSaves(prev => trackSave(prev, 'templates', saved));
+  }, [templates]);
+
+  // Undo / redo, command palette and find shortcuts. The simulator is left alone because all
+  // of these edit the flow, and undo / redo inside a text field undo the typing instead.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || showSimulation) return;
+      const key = e.key.toLowerCase();
+      if (key === 'f' && e.shiftKey) {
+        e.preventDefault();
+        openFind();
+      } else if (key === 'k') {
+        e.preventDefault();
+        setShowPalette(true);
+      } else if (isEditableTarget(e.target)) {
+        return;
+      } else if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, showSimulation]);
+
+  const selectedStep = steps.find(step => step.id === selectedStepId);
+  const startStep = getStartStep(steps);
+  const resolveFlow = useMemo(() => createFlowResolver(workspace, steps), [workspace, steps]);
+  const runOptions = useMemo(
+    () => ({ flowId: workspace.activeFlowId, resolveFlow }),
+    [workspace.activeFlowId, resolveFlow]
+  );
+  const issues = useMemo(() => validateFlow(steps, runOptions), [steps, runOptions]);
+  const stepIdsWithIssues = new Set(issues.map(issue => issue.stepId));
+  const flowSessions = useMemo(
+    () => sessions.filter(session => session.flowId === workspace.activeFlowId),
+    [sessions, workspace.activeFlowId]
+  );
+  const analytics = useMemo(() => computeFlowAnalytics(steps, flowSessions), [steps, flowSessions]);
+  const flowVariables = useMemo(() => getFlowVariables(steps), [steps]);
+  const stepTags = useMemo(() => getStepTags(steps), [steps]);
+  const stepOwners = useMemo(() => getStepOwners(steps), [steps]);
+  const visibleSteps = steps.filter(step => matchesStepFilter(step, stepFilter));
+  const clipboardCount = selectedStepIds.length > 0 ? selectedStepIds.length : selectedStepId ? 1 : 0;
+  const maxStepVisits = Math.max(1, ...Array.from(analytics.stepVisits.values()));
+
+  const addStep = (title: string, type: StepType = 'normal') => {
+    if (!title.trim()) return;
 
     const newStep: Step = {
       id: generateId(),
-      title: newStepTitle,
+      title,
       type,
       subSteps: [],
       expanded: true
     };
 
-    setSteps([...steps, newStep]);
-    setNewStepTitle('');
+    setSteps([...steps, newStep], { label: 'Add step' });
     setLastAction({
       type: 'add',
       message: 'Step added successfully'
     });
     setTimeout(() => setLastAction(null), 2000);
+    return newStep.id;
   };
 
   const addSubStep = (stepId: string) => {
@@ -100,7 +222,7 @@ const FlowDiagramBuilder = () => {
         };
       }
       return step;
-    }));
+    }), { label: 'Add sub-step' });
   };
 
   const updateSubStep = (stepId: string, subStepId: string, content: string) => {
@@ -114,7 +236,23 @@ const FlowDiagramBuilder = () => {
         };
       }
       return step;
-    }));
+    }), { label: 'Edit sub-step', groupKey: `content-${subStepId}` });
+  };
+
+  // Adding an image also drops the stored images the content no longer refers to
+  const addSubStepImage = (stepId: string, subStepId: string, imageId: string, dataUrl: string, content: string) => {
+    setSteps(prev => prev.map(step => {
+      if (step.id !== stepId) return step;
+      return {
+        ...step,
+        subSteps: step.subSteps.map(subStep => {
+          if (subStep.id !== subStepId) return subStep;
+          const referenced = new Set(getImageReferences(content));
+          const kept = Object.entries(subStep.images ?? {}).filter(([id]) => referenced.has(id));
+          return { ...subStep, content, images: Object.fromEntries([...kept, [imageId, dataUrl]]) };
+        })
+      };
+    }), { label: 'Add image' });
   };
 
   const updateSubStepConfig = (
@@ -140,17 +278,127 @@ const FlowDiagramBuilder = () => {
         };
       }
       return step;
-    }));
+    }), { label: 'Change sub-step routing' });
+  };
+
+  const updateSubStepOutcomes = (
+    stepId: string,
+    subStepId: string,
+    update: (outcomes: DecisionOutcome[]) => DecisionOutcome[],
+    options: { label: string; groupKey?: string }
+  ) => {
+    setSteps(prev => prev.map(step => {
+      if (step.id !== stepId) return step;
+      return {
+        ...step,
+        subSteps: step.subSteps.map(subStep =>
+          subStep.id === subStepId ? { ...subStep, outcomes: update(subStep.outcomes ?? []) } : subStep
+        )
+      };
+    }), options);
+  };
+
+  // Switching kind keeps the fields of the other kinds around in case it is switched back
+  const updateSubStepKind = (stepId: string, subStepId: string, kind: SubStepKind) => {
+    const kindLabels: Record<SubStepKind, string> = {
+      check: 'a check',
+      decision: 'a decision',
+      input: 'an input',
+      branch: 'an automatic branch'
+    };
+    setSteps(prev => prev.map(step => {
+      if (step.id !== stepId) return step;
+      return {
+        ...step,
+        subSteps: step.subSteps.map(subStep => {
+          if (subStep.id !== subStepId) return subStep;
+          if (kind === 'decision' && !subStep.outcomes?.length) {
+            return { ...subStep, kind, outcomes: [{ id: generateId(), label: 'Option 1' }, { id: generateId(), label: 'Option 2' }] };
+          }
+          if (kind === 'input' && !subStep.input) return { ...subStep, kind, input: { variable: '', type: 'text' } };
+          if (kind === 'branch' && subStep.condition === undefined) return { ...subStep, kind, condition: '' };
+          return { ...subStep, kind };
+        })
+      };
+    }), { label: `Make sub-step ${kindLabels[kind]}` });
+  };
+
+  const updateSubStepInput = (stepId: string, subStepId: string, changes: Partial<InputPrompt>) => {
+    setSteps(prev => prev.map(step => {
+      if (step.id !== stepId) return step;
+      return {
+        ...step,
+        subSteps: step.subSteps.map(subStep => subStep.id === subStepId
+          ? { ...subStep, input: { variable: '', type: 'text' as const, ...subStep.input, ...changes } }
+          : subStep
+        )
+      };
+    }), { label: 'Edit input', groupKey: `input-${subStepId}` });
+  };
+
+  const updateSubStepCondition = (stepId: string, subStepId: string, condition: string) => {
+    setSteps(prev => prev.map(step => {
+      if (step.id !== stepId) return step;
+      return {
+        ...step,
+        subSteps: step.subSteps.map(subStep => subStep.id === subStepId ? { ...subStep, condition } : subStep)
+      };
+    }), { label: 'Edit branch condition', groupKey: `condition-${subStepId}` });
+  };
+
+  const addOutcome = (stepId: string, subStepId: string) => {
+    updateSubStepOutcomes(stepId, subStepId, outcomes => [
+      ...outcomes,
+      { id: generateId(), label: `Option ${outcomes.length + 1}` }
+    ], { label: 'Add outcome' });
+  };
+
+  const updateOutcome = (stepId: string, subStepId: string, outcomeId: string, changes: Partial<DecisionOutcome>) => {
+    updateSubStepOutcomes(stepId, subStepId, outcomes => outcomes.map(outcome =>
+      outcome.id === outcomeId ? { ...outcome, ...changes } : outcome
+    ), changes.label !== undefined
+      ? { label: 'Rename outcome', groupKey: `outcome-${outcomeId}` }
+      : { label: 'Change outcome target' });
+  };
+
+  const deleteOutcome = (stepId: string, subStepId: string, outcomeId: string) => {
+    updateSubStepOutcomes(stepId, subStepId, outcomes => outcomes.filter(outcome => outcome.id !== outcomeId), {
+      label: 'Delete outcome'
+    });
+  };
+
+  const updateStepTitle = (stepId: string, title: string) => {
+    setSteps(prev => prev.map(step =>
+      step.id === stepId ? { ...step, title } : step
+    ), { label: 'Rename step', groupKey: `title-${stepId}` });
+  };
+
+  const updateStepMetadata = (stepId: string, changes: StepMetadata, label: string, groupKey?: string) => {
+    setSteps(prev => prev.map(step =>
+      step.id === stepId ? { ...step, ...changes } : step
+    ), { label, groupKey });
+  };
+
+  const updateStepSubFlow = (stepId: string, subFlowId?: string) => {
+    setSteps(prev => prev.map(step =>
+      step.id === stepId ? { ...step, subFlowId } : step
+    ), { label: 'Change called flow' });
+  };
+
+  const updateStepType = (stepId: string, type: StepType) => {
+    setSteps(prev => prev.map(step =>
+      step.id === stepId ? { ...step, type } : step
+    ), { label: 'Change step type' });
   };
 
   const toggleExpand = (stepId: string) => {
     setSteps(steps.map(step => 
       step.id === stepId ? { ...step, expanded: !step.expanded } : step
-    ));
+    ), { label: 'Toggle step' });
   };
 
   const deleteStep = (stepId: string) => {
-    setSteps(steps.filter(step => step.id !== stepId));
+    setSteps(steps.filter(step => step.id !== stepId), { label: 'Delete step' });
     setLastAction({
       type: 'delete',
       message: 'Step deleted'
@@ -167,111 +415,359 @@ const FlowDiagramBuilder = () => {
         };
       }
       return step;
-    }));
+    }), { label: 'Delete sub-step' });
   };
 
   const connectSuccessStep = (sourceId: string, targetId: string) => {
     setSteps(steps.map(step => 
       step.id === sourceId ? { ...step, successStepId: targetId } : step
-    ));
+    ), { label: 'Link success step' });
   };
 
   const connectFailureStep = (sourceId: string, targetId: string) => {
     setSteps(steps.map(step => 
       step.id === sourceId ? { ...step, failureStepId: targetId } : step
-    ));
+    ), { label: 'Link failure step' });
   };
 
-  const startSimulation = () => {
-    setIsSimulating(true);
-    setSimulationHistory([]);
-    setCurrentStepId(steps[0]?.id || null);
+  const connectStep = (sourceId: string, targetId: string, kind: StepResult) => {
+    if (kind === 'success') {
+      connectSuccessStep(sourceId, targetId);
+    } else {
+      connectFailureStep(sourceId, targetId);
+    }
   };
 
-  const stopSimulation = () => {
-    setIsSimulating(false);
-    setCurrentStepId(null);
-    setSimulationHistory([]);
+  // A flow without a marked start step starts at its first step, so moving another step to
+  // the top marks the old first step as start to keep the entry point where it was
+  const reorderStep = (stepId: string, targetId: string, after: boolean) => {
+    setSteps(prev => {
+      const moved = moveItem(prev, stepId, targetId, after);
+      if (prev.some(step => step.isStart) || moved[0] === prev[0]) return moved;
+      return moved.map(step => (step.id === prev[0].id ? { ...step, isStart: true } : step));
+    }, { label: 'Reorder steps' });
   };
 
-  const handleStepResult = (result: 'success' | 'failure') => {
-    if (!currentStepId) return;
+  const reorderSubStep = (stepId: string, subStepId: string, targetId: string, after: boolean) => {
+    setSteps(prev => prev.map(step =>
+      step.id === stepId ? { ...step, subSteps: moveItem(step.subSteps, subStepId, targetId, after) } : step
+    ), { label: 'Reorder sub-steps' });
+  };
 
-    const currentStep = steps.find(s => s.id === currentStepId);
-    if (!currentStep) return;
+  const setStartStep = (stepId: string) => {
+    setSteps(prev => prev.map(step =>
+      ({ ...step, isStart: step.id === stepId ? true : undefined })
+    ), { label: 'Set start step' });
+  };
 
-    // Add to history
-    setSimulationHistory(prev => [...prev, {
-      stepId: currentStepId,
-      result,
-      timestamp: Date.now()
-    }]);
+  const stepDrag = useDragReorder(reorderStep);
+  const subStepDrag = useDragReorder((subStepId, targetId, after) => {
+    if (selectedStepId) reorderSubStep(selectedStepId, subStepId, targetId, after);
+  });
 
-    // Find next step
-    const nextStepId = result === 'success' 
-      ? currentStep.successStepId 
-      : currentStep.failureStepId;
+  const moveStep = (stepId: string, position: StepPosition) => {
+    setSteps(prev => prev.map(step =>
+      step.id === stepId ? { ...step, position } : step
+    ), { label: 'Move step' });
+  };
 
-    if (nextStepId) {
-      setCurrentStepId(nextStepId);
-    } else {
-      // End of flow
-      setCurrentStepId(null);
-      setIsSimulating(false); // End simulation when reaching end of flow
+  // Re-layouts the shift-selected steps, or the whole flow when fewer than two are selected
+  const autoArrange = (direction: LayoutDirection) => {
+    const positions = computeLayout(steps, {
+      direction,
+      stepIds: selectedStepIds.length > 1 ? selectedStepIds : undefined
+    });
+    setSteps(prev => prev.map(step => {
+      const position = positions.get(step.id);
+      return position ? { ...step, position } : step;
+    }), { label: 'Auto-arrange' });
+  };
+
+  const toggleStepSelection = (stepId: string) => {
+    setSelectedStepIds(prev =>
+      prev.includes(stepId) ? prev.filter(id => id !== stepId) : [...prev, stepId]
+    );
+  };
+
+  // Ctrl/Cmd-click adds or removes a step from the multi-selection, Shift-click selects the
+  // range from the open step; a plain click opens the step on its own
+  const handleStepListClick = (e: React.MouseEvent, stepId: string) => {
+    if (e.ctrlKey || e.metaKey) {
+      setSelectedStepIds(prev => {
+        const base = prev.length > 0 ? prev : selectedStepId ? [selectedStepId] : [];
+        return base.includes(stepId) ? base.filter(id => id !== stepId) : [...base, stepId];
+      });
+      return;
+    }
+    const anchor = visibleSteps.findIndex(step => step.id === selectedStepId);
+    const index = visibleSteps.findIndex(step => step.id === stepId);
+    if (e.shiftKey && anchor !== -1) {
+      setSelectedStepIds(visibleSteps.slice(Math.min(anchor, index), Math.max(anchor, index) + 1).map(step => step.id));
+      return;
     }
+    setSelectedStepId(stepId);
+    setSelectedStepIds([stepId]);
+  };
+
+  // The clipboard actions work on the multi-selection, or else on the open step, in flow order
+  const getClipboardSteps = () => {
+    const stepIds = new Set(selectedStepIds.length > 0 ? selectedStepIds : selectedStepId ? [selectedStepId] : []);
+    return steps.filter(step => stepIds.has(step.id));
+  };
+
+  const insertSteps = (copied: Step[], action: 'Duplicate' | 'Paste' | 'Insert') => {
+    const { steps: nextSteps, pastedIds } = pasteSteps(steps, copied, { keepOutsideLinks });
+    setSteps(nextSteps, { label: `${action} steps` });
+    setSelectedStepId(pastedIds[0]);
+    setSelectedStepIds(pastedIds);
+    setLastAction({
+      type: 'add',
+      message: `${action === 'Duplicate' ? 'Duplicated' : action === 'Paste' ? 'Pasted' : 'Inserted'} ${pastedIds.length} step${pastedIds.length === 1 ? '' : 's'}`
+    });
+    setTimeout(() => setLastAction(null), 2000);
   };
 
-  const handleStepClick = (stepId: string) => {
-    if (!isSimulating) return;
-    
-    // Only allow clicking steps that are connected to the current step
-    const currentStep = steps.find(s => s.id === currentStepId);
-    if (!currentStep) return;
+  // Cutting from the copy button runs after the clipboard write, so it removes the steps from
+  // whatever the flow looks like by then rather than from the render it started in
+  const removeSteps = (removed: Step[]) => {
+    const removedIds = new Set(removed.map(step => step.id));
+    setSteps(prev => prev.filter(step => !removedIds.has(step.id)), { label: 'Cut steps' });
+    setSelectedStepId(null);
+    setSelectedStepIds([]);
+    setLastAction({
+      type: 'delete',
+      message: `Cut ${removed.length} step${removed.length === 1 ? '' : 's'}`
+    });
+    setTimeout(() => setLastAction(null), 2000);
+  };
+
+  const duplicateSteps = () => {
+    const copied = getClipboardSteps();
+    if (copied.length > 0) insertSteps(copied, 'Duplicate');
+  };
+
+  // Copied steps travel through the system clipboard as flow JSON, so they also paste into
+  // a flow open in another tab. Returns false when the text is not a flow.
+  const pasteFlowText = (text: string) => {
+    const result = parseFlowFile(text);
+    if (!result.ok || result.file.steps.length === 0) return false;
+    insertSteps(result.file.steps, 'Paste');
+    return true;
+  };
 
-    if (currentStep.successStepId === stepId || currentStep.failureStepId === stepId) {
-      setCurrentStepId(stepId);
+  const copySteps = async (cut: boolean) => {
+    const copied = getClipboardSteps();
+    if (copied.length === 0) return;
+    try {
+      await navigator.clipboard.writeText(serializeFlowFile(copied, activeFlow.name));
+    } catch {
+      alert('Could not copy to the clipboard');
+      return;
     }
+    if (cut) {
+      removeSteps(copied);
+      return;
+    }
+    setLastAction({
+      type: 'save',
+      message: `Copied ${copied.length} step${copied.length === 1 ? '' : 's'}`
+    });
+    setTimeout(() => setLastAction(null), 2000);
+  };
+
+  const pasteFromClipboard = async () => {
+    let text: string;
+    try {
+      text = await navigator.clipboard.readText();
+    } catch {
+      alert('Could not read the clipboard. Press Ctrl+V to paste instead.');
+      return;
+    }
+    if (!pasteFlowText(text)) alert('The clipboard does not contain copied steps');
+  };
+
+  // Templates
+  const insertTemplate = (template: StepTemplate, values: Record<string, string>) => {
+    const trimmed = Object.fromEntries(Object.entries(values).map(([name, value]) => [name, value.trim()]));
+    insertSteps(fillTemplate(template, trimmed), 'Insert');
+    setShowTemplates(false);
+  };
+
+  const saveSelectionAsTemplate = (name: string, description: string) => {
+    const template = createTemplate(name, description, getClipboardSteps());
+    setTemplates(prev => [...prev, template]);
+    return template.id;
+  };
+
+  const deleteTemplate = (templateId: string) => {
+    setTemplates(prev => prev.filter(template => template.id !== templateId));
+  };
+
+  // The find panel sits where the history panel does, so only one of them is open
+  const openFind = () => {
+    setShowHistory(false);
+    setShowFind(true);
+  };
+
+  const selectFindMatch = (match: FindMatch) => {
+    setSelectedStepIds([match.stepId]);
+    openStep(match.stepId);
+  };
+
+  const replaceOne = (match: FindMatch, options: FindOptions, replacement: string) => {
+    setSteps(prev => replaceMatch(prev, match, options, replacement), { label: 'Replace' });
+  };
+
+  const replaceEverywhere = (options: FindOptions, replacement: string) => {
+    const result = replaceAll(steps, options, replacement);
+    if (result.count === 0) return;
+    setSteps(result.steps, { label: `Replace ${result.count} matches` });
+    setLastAction({
+      type: 'update',
+      message: `Replaced ${result.count} match${result.count === 1 ? '' : 'es'}`
+    });
+    setTimeout(() => setLastAction(null), 2000);
   };
 
-  const exportConfiguration = () => {
-    const configuration = {
-      steps,
-      version: '1.0' // for future compatibility
+  // Ctrl+C / X / V / D act on steps unless a text field has focus or text is selected. The
+  // listeners are replaced on every render so they always see the current selection.
+  useEffect(() => {
+    const isForSteps = (e: Event) =>
+      !showSimulation && !isEditableTarget(e.target) && !window.getSelection()?.toString();
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (!isForSteps(e)) return;
+      const copied = getClipboardSteps();
+      if (copied.length === 0) return;
+      e.preventDefault();
+      e.clipboardData?.setData('text/plain', serializeFlowFile(copied, activeFlow.name));
+      if (e.type === 'cut') removeSteps(copied);
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isForSteps(e) && pasteFlowText(e.clipboardData?.getData('text/plain') ?? '')) e.preventDefault();
     };
-    
-    const blob = new Blob([JSON.stringify(configuration, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `flow-configuration-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'd' || !isForSteps(e)) return;
+      e.preventDefault();
+      duplicateSteps();
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  });
+
+  // Flow library
+  const switchFlow = (flowId: string) => {
+    setWorkspace(prev => ({ ...prev, activeFlowId: flowId }));
+    resetHistory(loadFlowSteps(flowId));
+    setSelectedStepId(null);
+    setSelectedStepIds([]);
+    setStepFilter({});
+  };
+
+  const createFlow = (name: string) => {
+    const flow = createFlowMeta(name);
+    setWorkspace(prev => ({ flows: [...prev.flows, flow], activeFlowId: flow.id }));
+    resetHistory([]);
+    setSelectedStepId(null);
+    setSelectedStepIds([]);
+    setStepFilter({});
+  };
+
+  const renameFlow = (flowId: string, name: string) => {
+    setWorkspace(prev => ({
+      ...prev,
+      flows: prev.flows.map(flow => flow.id === flowId ? { ...flow, name, updatedAt: Date.now() } : flow)
+    }));
+  };
+
+  const duplicateFlow = (flowId: string) => {
+    const source = workspace.flows.find(flow => flow.id === flowId);
+    if (!source) return;
+    const copy = createFlowMeta(`${source.name} (copy)`);
+    if (saveFlowSteps(copy.id, flowId === workspace.activeFlowId ? steps : loadFlowSteps(flowId)) === 'failed') {
+      alert('There is not enough browser storage left to copy this flow.');
+      return;
+    }
+    setWorkspace(prev => ({ ...prev, flows: [...prev.flows, copy] }));
+  };
+
+  const deleteFlow = (flowId: string) => {
+    const remaining = workspace.flows.filter(flow => flow.id !== flowId);
+    if (remaining.length === 0) return;
+    deleteFlowSteps(flowId);
+    setSessions(prev => prev.filter(session => session.flowId !== flowId));
+    setWorkspace(prev => ({ ...prev, flows: prev.flows.filter(flow => flow.id !== flowId) }));
+    if (flowId === workspace.activeFlowId) {
+      switchFlow(remaining[0].id);
+    }
+  };
+
+  const recordSession = (session: SimulationSession) => {
+    setSessions(prev => addSession(prev, session));
+    setLastAction({ type: 'save', message: 'Simulation run recorded' });
+    setTimeout(() => setLastAction(null), 2000);
   };
 
   const importConfiguration = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    // Parse and validate first; nothing is replaced until the preview is confirmed
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const configuration = JSON.parse(e.target?.result as string);
-        if (configuration.steps) {
-          setSteps(configuration.steps);
-        }
-      } catch (error) {
-        alert('Error importing configuration file');
-      }
+      setPendingImport({
+        fileName: file.name,
+        result: parseImportFile(file.name, e.target?.result as string)
+      });
+    };
+    reader.onerror = () => {
+      setPendingImport({
+        fileName: file.name,
+        result: { ok: false, errors: ['The file could not be read'] }
+      });
     };
     reader.readAsText(file);
+    // Allow choosing the same file again after cancelling
+    event.target.value = '';
+  };
+
+  const confirmImport = (importedSteps: Step[]) => {
+    setSteps(importedSteps, { label: 'Import configuration' });
+    setSelectedStepId(null);
+    setSelectedStepIds([]);
+    setPendingImport(null);
+    setLastAction({
+      type: 'update',
+      message: `Imported ${importedSteps.length} steps`
+    });
+    setTimeout(() => setLastAction(null), 2000);
+  };
+
+  const confirmMergeImport = (incomingSteps: Step[], options: MergeOptions) => {
+    setSteps(prev => mergeSteps(prev, incomingSteps, options), { label: 'Merge import' });
+    setPendingImport(null);
+    setLastAction({
+      type: 'add',
+      message: `Merged ${options.stepIds.length} steps`
+    });
+    setTimeout(() => setLastAction(null), 2000);
   };
 
   // Manual save function
   const saveConfiguration = () => {
-    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(steps));
+    if (saveFlowSteps(workspace.activeFlowId, steps) === 'failed') {
+      setFailedSaves(prev => trackSave(prev, 'flow', false));
+      return;
+    }
     setLastAction({
       type: 'save',
       message: 'Configuration saved'
@@ -279,6 +775,107 @@ const FlowDiagramBuilder = () => {
     setTimeout(() => setLastAction(null), 2000);
   };
 
+  const openStep = (stepId: string) => {
+    setSelectedStepId(stepId);
+    setView('details');
+  };
+
+  // Up / down move the selection through the (filtered) step list once it has focus
+  const handleStepListKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (visibleSteps.length === 0) return;
+    const index = visibleSteps.findIndex(step => step.id === selectedStepId);
+    const last = visibleSteps.length - 1;
+    let next: number;
+    switch (e.key) {
+      case 'ArrowDown':
+        next = index === -1 ? 0 : Math.min(index + 1, last);
+        break;
+      case 'ArrowUp':
+        next = index === -1 ? last : Math.max(index - 1, 0);
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = last;
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    const stepId = visibleSteps[next].id;
+    setSelectedStepId(stepId);
+    e.currentTarget.querySelector(`[data-step-id="${stepId}"]`)?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const stepPickerItems = (onPick: (stepId: string) => void, excludeStepId?: string): PaletteItem[] =>
+    steps
+      .filter(step => step.id !== excludeStepId)
+      .map(step => ({
+        id: step.id,
+        label: step.title || 'Untitled step',
+        detail: step.id === startStep?.id ? 'start' : step.type !== 'normal' ? step.type : undefined,
+        run: () => onPick(step.id)
+      }));
+
+  const getPaletteCommands = (): PaletteItem[] => {
+    const commands: PaletteItem[] = [{
+      id: 'add-step',
+      label: 'Add step…',
+      prompt: {
+        placeholder: 'Title of the new step',
+        onSubmit: title => {
+          const stepId = addStep(title);
+          if (stepId) openStep(stepId);
+        }
+      }
+    }];
+    if (selectedStep) {
+      const title = selectedStep.title || 'Untitled step';
+      if (selectedStep.id !== startStep?.id) {
+        commands.push({ id: 'set-start', label: `Set "${title}" as start step`, run: () => setStartStep(selectedStep.id) });
+      }
+      if (!isSubFlowStep(selectedStep)) {
+        commands.push({ id: 'add-sub-step', label: `Add sub-step to "${title}"`, run: () => addSubStep(selectedStep.id) });
+      }
+      commands.push(
+        {
+          id: 'link-success',
+          label: `Link success of "${title}" to…`,
+          items: () => stepPickerItems(targetId => connectSuccessStep(selectedStep.id, targetId), selectedStep.id)
+        },
+        {
+          id: 'link-failure',
+          label: `Link failure of "${title}" to…`,
+          items: () => stepPickerItems(targetId => connectFailureStep(selectedStep.id, targetId), selectedStep.id)
+        }
+      );
+    }
+    commands.push(
+      { id: 'jump-to-step', label: 'Jump to step…', items: () => stepPickerItems(openStep) },
+      { id: 'templates', label: 'Step templates…', run: () => setShowTemplates(true) },
+      { id: 'find', label: 'Find and replace…', detail: 'Ctrl+Shift+F', run: openFind },
+      {
+        id: 'open-flow',
+        label: 'Open flow…',
+        items: () => workspace.flows
+          .filter(flow => flow.id !== workspace.activeFlowId)
+          .map(flow => ({ id: flow.id, label: flow.name, run: () => switchFlow(flow.id) }))
+      },
+      { id: 'simulate', label: 'Run simulation', run: () => setShowSimulation(true) },
+      {
+        id: 'toggle-view',
+        label: view === 'details' ? 'Show diagram' : 'Show step details',
+        run: () => setView(view === 'details' ? 'diagram' : 'details')
+      },
+      { id: 'save', label: 'Save', run: saveConfiguration }
+    );
+    if (canUndo) commands.push({ id: 'undo', label: 'Undo', detail: 'Ctrl+Z', run: undo });
+    if (canRedo) commands.push({ id: 'redo', label: 'Redo', detail: 'Ctrl+Shift+Z', run: redo });
+    commands.push({ id: 'dark-mode', label: isDarkMode ? 'Switch to light mode' : 'Switch to dark mode', run: toggleDarkMode });
+    return commands;
+  };
+
   return (
     <div className={`min-h-screen ${isDarkMode ? 'bg-gray-900 text-gray-100' : 'bg-gray-50 text-gray-800'}`}>
       {/* Toast Notification */}
@@ -308,13 +905,80 @@ const FlowDiagramBuilder = () => {
         )}
       </AnimatePresence>
 
+      {/* Save Warning */}
+      {failedSaves.length > 0 && (
+        <div className={`fixed bottom-4 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-lg shadow-lg border border-yellow-500 flex items-center gap-2 text-sm ${
+          isDarkMode ? 'bg-gray-800' : 'bg-white'
+        }`}>
+          <AlertTriangle className="w-4 h-4 text-yellow-500" />
+          Browser storage is full, so recent changes are not saved. Remove images or export the flow.
+        </div>
+      )}
+
       {/* Header */}
       <div className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
         <div className="p-4 max-w-[1600px] mx-auto flex justify-between items-center">
-          <h1 className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
-            Flow Diagram Builder
-          </h1>
           <div className="flex items-center gap-4">
+            <h1 className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
+              Flow Diagram Builder
+            </h1>
+            {/* Flow Library Toggle */}
+            <button
+              onClick={() => setShowLibrary(!showLibrary)}
+              className={`px-3 py-2 rounded-lg flex items-center gap-2 font-medium ${
+                isDarkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              <FolderOpen className="w-4 h-4" />
+              <span className="max-w-[200px] truncate">{activeFlow.name}</span>
+              <ChevronDown className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex items-center gap-4">
+            {/* Undo / Redo / History */}
+            <div className={`flex items-center gap-1 p-1 rounded-lg ${isDarkMode ? 'bg-gray-800' : 'bg-gray-200'}`}>
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+                className="p-2 rounded-md hover:bg-gray-500/20 disabled:opacity-40"
+              >
+                <Undo2 className="w-5 h-5" />
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                className="p-2 rounded-md hover:bg-gray-500/20 disabled:opacity-40"
+              >
+                <Redo2 className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => {
+                  setShowHistory(!showHistory);
+                  setShowFind(false);
+                }}
+                title="History"
+                className={`p-2 rounded-md hover:bg-gray-500/20 ${showHistory ? 'text-blue-500' : ''}`}
+              >
+                <History className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowPalette(true)}
+                title="Commands (Ctrl+K)"
+                className="p-2 rounded-md hover:bg-gray-500/20"
+              >
+                <Command className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => (showFind ? setShowFind(false) : openFind())}
+                title="Find and replace (Ctrl+Shift+F)"
+                className={`p-2 rounded-md hover:bg-gray-500/20 ${showFind ? 'text-blue-500' : ''}`}
+              >
+                <Search className="w-5 h-5" />
+              </button>
+            </div>
+
             {/* Save Button */}
             <button
               onClick={saveConfiguration}
@@ -342,9 +1006,35 @@ const FlowDiagramBuilder = () => {
               Start Simulation
             </button>
 
+            {/* Recorded Runs Button */}
+            <button
+              onClick={() => setShowSessions(true)}
+              className={`px-6 py-2.5 rounded-lg flex items-center gap-2 font-semibold ${
+                isDarkMode 
+                  ? 'bg-teal-600 hover:bg-teal-700' 
+                  : 'bg-teal-100 text-teal-600 hover:bg-teal-200'
+              }`}
+            >
+              <ClipboardList className="w-5 h-5" />
+              Runs
+            </button>
+
+            {/* Test Cases Button */}
+            <button
+              onClick={() => setShowTestCases(true)}
+              className={`px-6 py-2.5 rounded-lg flex items-center gap-2 font-semibold ${
+                isDarkMode 
+                  ? 'bg-indigo-600 hover:bg-indigo-700' 
+                  : 'bg-indigo-100 text-indigo-600 hover:bg-indigo-200'
+              }`}
+            >
+              <FlaskConical className="w-5 h-5" />
+              Tests
+            </button>
+
             {/* Export Button */}
             <button
-              onClick={exportConfiguration}
+              onClick={() => setShowExport(true)}
               className={`px-6 py-2.5 rounded-lg flex items-center gap-2 font-semibold ${
                 isDarkMode 
                   ? 'bg-blue-600 hover:bg-blue-700' 
@@ -365,7 +1055,7 @@ const FlowDiagramBuilder = () => {
               Import
               <input
                 type="file"
-                accept=".json"
+                accept={IMPORT_FILE_ACCEPT}
                 onChange={importConfiguration}
                 className="hidden"
               />
@@ -400,6 +1090,11 @@ const FlowDiagramBuilder = () => {
                 type="text"
                 value={newStepTitle}
                 onChange={(e) => setNewStepTitle(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key !== 'Enter') return;
+                  addStep(newStepTitle);
+                  setNewStepTitle('');
+                }}
                 placeholder="Enter step title"
                 className={`flex-1 px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
                   isDarkMode 
@@ -409,7 +1104,7 @@ const FlowDiagramBuilder = () => {
               />
               <button
                 onClick={() => {
-                  addStep('normal');
+                  addStep(newStepTitle);
                   setNewStepTitle('');
                 }}
                 className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
@@ -419,38 +1114,249 @@ const FlowDiagramBuilder = () => {
             </div>
           </div>
 
-          <div className="space-y-2 overflow-y-auto h-[calc(100vh-200px)]">
-            {steps.map((step) => (
+          {/* Heatmap Toggle */}
+          {analytics.runCount > 0 && (
+            <button
+              onClick={() => setShowHeatmap(!showHeatmap)}
+              className={`mb-2 px-3 py-1.5 rounded-lg flex items-center gap-2 text-sm ${
+                showHeatmap
+                  ? 'bg-orange-500 text-white'
+                  : isDarkMode ? 'bg-gray-800 hover:bg-gray-700 text-gray-300' : 'bg-white hover:bg-gray-100 text-gray-600'
+              }`}
+            >
+              <Flame className="w-4 h-4" />
+              {showHeatmap ? 'Hide' : 'Show'} usage from {analytics.runCount} run{analytics.runCount === 1 ? '' : 's'}
+            </button>
+          )}
+
+          {/* Copy / Paste */}
+          <div className="mb-2 flex items-center gap-1 text-sm text-gray-500">
+            <button
+              onClick={() => copySteps(false)}
+              disabled={clipboardCount === 0}
+              title="Copy (Ctrl+C)"
+              className="p-1.5 rounded-md hover:bg-gray-500/20 disabled:opacity-40"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => copySteps(true)}
+              disabled={clipboardCount === 0}
+              title="Cut (Ctrl+X)"
+              className="p-1.5 rounded-md hover:bg-gray-500/20 disabled:opacity-40"
+            >
+              <Scissors className="w-4 h-4" />
+            </button>
+            <button
+              onClick={duplicateSteps}
+              disabled={clipboardCount === 0}
+              title="Duplicate (Ctrl+D)"
+              className="p-1.5 rounded-md hover:bg-gray-500/20 disabled:opacity-40"
+            >
+              <CopyPlus className="w-4 h-4" />
+            </button>
+            <button
+              onClick={pasteFromClipboard}
+              title="Paste (Ctrl+V)"
+              className="p-1.5 rounded-md hover:bg-gray-500/20 disabled:opacity-40"
+            >
+              <ClipboardPaste className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setShowTemplates(true)}
+              title="Step templates"
+              className="p-1.5 rounded-md hover:bg-gray-500/20"
+            >
+              <LayoutTemplate className="w-4 h-4" />
+            </button>
+            {selectedStepIds.length > 1 && <span className="ml-1">{selectedStepIds.length} selected</span>}
+            <label
+              className="ml-auto flex items-center gap-1.5 text-xs cursor-pointer"
+              title="When off, pasted steps lose their links to steps that were not copied with them"
+            >
+              <input
+                type="checkbox"
+                checked={keepOutsideLinks}
+                onChange={(e) => setKeepOutsideLinks(e.target.checked)}
+              />
+              Keep outside links
+            </label>
+          </div>
+
+          {/* Step Filter */}
+          {(stepTags.length > 0 || stepOwners.length > 0 || isStepFilterActive(stepFilter)) && (
+            <div className="mb-2 flex items-center gap-2">
+              <select
+                value={stepFilter.tag ?? ''}
+                onChange={(e) => setStepFilter(prev => ({ ...prev, tag: e.target.value || undefined }))}
+                className={`flex-1 min-w-0 px-2 py-1.5 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  isDarkMode 
+                    ? 'bg-gray-800 border-gray-700 text-white' 
+                    : 'bg-white border-gray-200 text-gray-800'
+                }`}
+              >
+                <option value="">All tags</option>
+                {stepTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+              </select>
+              <select
+                value={stepFilter.owner ?? ''}
+                onChange={(e) => setStepFilter(prev => ({ ...prev, owner: e.target.value || undefined }))}
+                className={`flex-1 min-w-0 px-2 py-1.5 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  isDarkMode 
+                    ? 'bg-gray-800 border-gray-700 text-white' 
+                    : 'bg-white border-gray-200 text-gray-800'
+                }`}
+              >
+                <option value="">All owners</option>
+                {stepOwners.map(owner => <option key={owner} value={owner}>{owner}</option>)}
+              </select>
+              {isStepFilterActive(stepFilter) && (
+                <button
+                  onClick={() => setStepFilter({})}
+                  title="Clear filter"
+                  className="p-1.5 text-gray-500 hover:text-blue-500"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )}
+
+          <div
+            tabIndex={0}
+            onKeyDown={handleStepListKeyDown}
+            className="space-y-2 overflow-y-auto h-[calc(100vh-200px)] select-none focus:outline-none"
+          >
+            {isStepFilterActive(stepFilter) && (
+              <p className="text-xs text-gray-500">
+                Showing {visibleSteps.length} of {steps.length} steps
+              </p>
+            )}
+            {visibleSteps.map((step) => (
               <div
                 key={step.id}
-                onClick={() => setSelectedStepId(step.id)}
+                data-step-id={step.id}
+                onClick={(e) => handleStepListClick(e, step.id)}
+                {...stepDrag.getHandleProps(step.id)}
+                {...stepDrag.getTargetProps(step.id)}
                 className={`p-3 rounded-lg cursor-pointer 
                   transition-all duration-200 
                   hover:translate-x-1
-                  active:scale-98 ${
+                  active:scale-98 ${stepDrag.draggedId === step.id ? 'opacity-50' : ''} ${
+                  stepDrag.getDropPosition(step.id) === 'before'
+                    ? 'shadow-[0_-2px_0_0_#3b82f6]'
+                    : stepDrag.getDropPosition(step.id) === 'after' ? 'shadow-[0_2px_0_0_#3b82f6]' : ''
+                } ${
                   selectedStepId === step.id
                     ? isDarkMode 
                       ? 'bg-gray-700 ring-2 ring-blue-500' 
                       : 'bg-blue-50 ring-2 ring-blue-500'
+                    : selectedStepIds.length > 1 && selectedStepIds.includes(step.id)
+                      ? isDarkMode ? 'bg-gray-700 ring-1 ring-blue-400' : 'bg-blue-50 ring-1 ring-blue-400'
                     : isDarkMode 
                       ? 'hover:bg-gray-800' 
                       : 'hover:bg-gray-50'
                 }`}
               >
                 <div className="flex items-center justify-between">
-                  <span className="font-medium">{step.title}</span>
+                  <span className="font-medium flex items-center gap-2">
+                    {stepIdsWithIssues.has(step.id) && (
+                      <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                    )}
+                    {step.title}
+                    {step.id === startStep?.id && (
+                      <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${
+                        isDarkMode ? 'bg-blue-900 text-blue-300' : 'bg-blue-100 text-blue-600'
+                      }`}>
+                        Start
+                      </span>
+                    )}
+                  </span>
                   <span className="text-sm text-gray-500">
                     {step.subSteps.length} sub-steps
                   </span>
                 </div>
+                {(step.severity || step.owner || (step.tags ?? []).length > 0) && (
+                  <div className="mt-1.5 flex flex-wrap items-center gap-1.5 text-xs text-gray-500">
+                    {step.severity && (
+                      <span className={`px-1.5 py-0.5 rounded font-medium capitalize ${SEVERITY_STYLES[step.severity]}`}>
+                        {step.severity}
+                      </span>
+                    )}
+                    {step.owner && <span>{step.owner}</span>}
+                    {(step.tags ?? []).map(tag => (
+                      <span key={tag} className={`px-1.5 py-0.5 rounded ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {showHeatmap && analytics.runCount > 0 && (
+                  <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
+                    <div className="flex-1 h-1.5 rounded-full bg-gray-500/20">
+                      <div
+                        className="h-full rounded-full bg-orange-500"
+                        style={{ width: `${((analytics.stepVisits.get(step.id) ?? 0) / maxStepVisits) * 100}%` }}
+                      />
+                    </div>
+                    {analytics.stepVisits.has(step.id)
+                      ? `${analytics.stepVisits.get(step.id)} visits`
+                      : <span className="italic">never visited</span>
+                    }
+                  </div>
+                )}
               </div>
             ))}
           </div>
         </div>
 
-        {/* Right Panel - Step Details */}
-        <div className="flex-1 p-6 overflow-y-auto">
-          {selectedStep ? (
+        {/* Right Panel - Step Details / Diagram */}
+        <div className="flex-1 p-6 overflow-y-auto flex flex-col">
+          {/* View Tabs */}
+          <div className="flex gap-2 mb-4">
+            {([
+              { id: 'details', label: 'Details', icon: List },
+              { id: 'diagram', label: 'Diagram', icon: Share2 }
+            ] as const).map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setView(tab.id)}
+                className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium ${
+                  view === tab.id
+                    ? 'bg-blue-600 text-white'
+                    : isDarkMode
+                      ? 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+                      : 'bg-white hover:bg-gray-100 text-gray-600'
+                }`}
+              >
+                <tab.icon className="w-4 h-4" />
+                {tab.label}
+              </button>
+            ))}
+          </div>
+
+          {view === 'diagram' ? (
+            <div className="flex-1 min-h-0">
+              <FlowCanvas
+                steps={steps}
+                selectedStepId={selectedStepId}
+                selectedStepIds={selectedStepIds}
+                onSelectStep={(stepId) => {
+                  setSelectedStepId(stepId);
+                  setSelectedStepIds([stepId]);
+                }}
+                onToggleStepSelection={toggleStepSelection}
+                onClearSelection={() => setSelectedStepIds([])}
+                onAutoArrange={autoArrange}
+                onOpenStep={(stepId) => {
+                  setSelectedStepId(stepId);
+                  setView('details');
+                }}
+                onConnect={connectStep}
+                onMoveStep={moveStep}
+              />
+            </div>
+          ) : selectedStep ? (
             <div className={`${isDarkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-6 shadow-sm`}>
               <div className="flex items-center justify-between mb-6">
                 <input
@@ -463,6 +1369,40 @@ const FlowDiagramBuilder = () => {
                       : 'bg-white border-gray-200 text-gray-800'
                   }`}
                 />
+                <select
+                  value={selectedStep.type}
+                  onChange={(e) => updateStepType(selectedStep.id, e.target.value as StepType)}
+                  className={`ml-3 mr-auto px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    isDarkMode 
+                      ? 'bg-gray-700 border-gray-600 text-white' 
+                      : 'bg-white border-gray-200 text-gray-800'
+                  }`}
+                >
+                  <option value="normal">Normal step</option>
+                  <option value="success">Terminal: success</option>
+                  <option value="failure">Terminal: failure</option>
+                  <option value="subflow">Sub-flow</option>
+                </select>
+                {selectedStep.id === startStep?.id ? (
+                  <span className={`mr-2 px-3 py-2 rounded-lg flex items-center gap-2 text-sm ${
+                    isDarkMode ? 'bg-blue-900 text-blue-300' : 'bg-blue-100 text-blue-600'
+                  }`}>
+                    <Flag className="w-4 h-4" />
+                    Start step
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => setStartStep(selectedStep.id)}
+                    className={`mr-2 px-3 py-2 rounded-lg flex items-center gap-2 text-sm ${
+                      isDarkMode 
+                        ? 'bg-gray-700 hover:bg-gray-600 text-white' 
+                        : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    <Flag className="w-4 h-4" />
+                    Set as start
+                  </button>
+                )}
                 <button
                   onClick={() => {
                     deleteStep(selectedStep.id);
@@ -476,6 +1416,13 @@ const FlowDiagramBuilder = () => {
                 </button>
               </div>
 
+              <StepMetadataEditor
+                step={selectedStep}
+                knownTags={stepTags}
+                knownOwners={stepOwners}
+                onChange={(changes, label, groupKey) => updateStepMetadata(selectedStep.id, changes, label, groupKey)}
+              />
+
               {/* Step Configuration */}
               <div className="grid grid-cols-2 gap-4 mb-6">
                 {/* Success Step Configuration */}
@@ -489,7 +1436,7 @@ const FlowDiagramBuilder = () => {
                       const updatedSteps = steps.map(s =>
                         s.id === selectedStep.id ? { ...s, successStepId: e.target.value || undefined } : s
                       );
-                      setSteps(updatedSteps);
+                      setSteps(updatedSteps, { label: 'Link success step' });
                     }}
                     className={`w-full px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-green-500 ${
                       isDarkMode 
@@ -518,7 +1465,7 @@ const FlowDiagramBuilder = () => {
                       const updatedSteps = steps.map(s =>
                         s.id === selectedStep.id ? { ...s, failureStepId: e.target.value || undefined } : s
                       );
-                      setSteps(updatedSteps);
+                      setSteps(updatedSteps, { label: 'Link failure step' });
                     }}
                     className={`w-full px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-red-500 ${
                       isDarkMode 
@@ -537,40 +1484,238 @@ const FlowDiagramBuilder = () => {
                 </div>
               </div>
 
-              {/* Sub-steps */}
+              {/* Sub-flow */}
+              {isSubFlowStep(selectedStep) ? (
+              <div className="space-y-2">
+                <label className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                  Calls flow:
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    value={selectedStep.subFlowId || ''}
+                    onChange={(e) => updateStepSubFlow(selectedStep.id, e.target.value || undefined)}
+                    className={`flex-1 px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      isDarkMode 
+                        ? 'bg-gray-700 border-gray-600 text-white' 
+                        : 'bg-white border-gray-200 text-gray-800'
+                    }`}
+                  >
+                    <option value="">Select Flow</option>
+                    {workspace.flows
+                      .filter(flow => flow.id !== workspace.activeFlowId)
+                      .map(flow => (
+                        <option key={flow.id} value={flow.id}>{flow.name}</option>
+                      ))
+                    }
+                  </select>
+                  <button
+                    onClick={() => selectedStep.subFlowId && switchFlow(selectedStep.subFlowId)}
+                    disabled={!selectedStep.subFlowId || !resolveFlow(selectedStep.subFlowId)}
+                    className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm disabled:opacity-40 ${
+                      isDarkMode 
+                        ? 'bg-gray-700 hover:bg-gray-600 text-white' 
+                        : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                    Open
+                  </button>
+                </div>
+                <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  The simulator runs the called flow here, then continues on this step's failure link if it
+                  ends on a failure step and on its success link otherwise.
+                </p>
+                {issues
+                  .filter(issue => issue.stepId === selectedStep.id && issue.code === 'recursive-sub-flow')
+                  .map(issue => (
+                    <p key={issue.id} className="text-sm text-red-500 flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      {issue.message}
+                    </p>
+                  ))
+                }
+              </div>
+              ) : (
+              /* Sub-steps */
               <div className="space-y-4">
                 <h3 className={`text-lg font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
                   Sub-steps
                 </h3>
                 {selectedStep.subSteps.map((subStep) => (
-                  <div key={subStep.id} className="space-y-2">
-                    <div className="flex items-center gap-3">
-                      <ArrowRight className="w-4 h-4 text-gray-400" />
-                      <input
-                        type="text"
+                  <div
+                    key={subStep.id}
+                    {...subStepDrag.getTargetProps(subStep.id)}
+                    className={`space-y-2 rounded-lg ${subStepDrag.draggedId === subStep.id ? 'opacity-50' : ''} ${
+                      subStepDrag.getDropPosition(subStep.id) === 'before'
+                        ? 'shadow-[0_-2px_0_0_#3b82f6]'
+                        : subStepDrag.getDropPosition(subStep.id) === 'after' ? 'shadow-[0_2px_0_0_#3b82f6]' : ''
+                    }`}
+                  >
+                    <div className="flex items-start gap-3">
+                      <div
+                        {...subStepDrag.getHandleProps(subStep.id)}
+                        title="Drag to reorder"
+                        className="mt-9 cursor-grab text-gray-400 hover:text-gray-600"
+                      >
+                        <GripVertical className="w-4 h-4" />
+                      </div>
+                      <MarkdownEditor
                         value={subStep.content}
-                        onChange={(e) => updateSubStep(selectedStep.id, subStep.id, e.target.value)}
-                        placeholder="Enter sub-step details"
-                        className={`flex-1 px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        images={subStep.images}
+                        onChange={(content) => updateSubStep(selectedStep.id, subStep.id, content)}
+                        onAddImage={(imageId, dataUrl, content) =>
+                          addSubStepImage(selectedStep.id, subStep.id, imageId, dataUrl, content)
+                        }
+                        placeholder={subStep.kind === 'decision' || subStep.kind === 'input'
+                          ? 'Enter the question'
+                          : 'Enter sub-step details in Markdown, {{variable}} inserts a value'}
+                      />
+                      <select
+                        value={subStep.kind ?? 'check'}
+                        onChange={(e) => updateSubStepKind(selectedStep.id, subStep.id, e.target.value as SubStepKind)}
+                        className={`mt-7 px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
                           isDarkMode 
-                            ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' 
-                            : 'bg-white border-gray-200 text-gray-800 placeholder-gray-400'
+                            ? 'bg-gray-700 border-gray-600 text-white' 
+                            : 'bg-white border-gray-200 text-gray-800'
                         }`}
-                      />
+                      >
+                        <option value="check">Success / Failure</option>
+                        <option value="decision">Decision</option>
+                        <option value="input">Input</option>
+                        <option value="branch">Automatic branch</option>
+                      </select>
                       <button
                         onClick={() => deleteSubStep(selectedStep.id, subStep.id)}
-                        className="text-red-500 hover:bg-red-50 p-1 rounded-md"
+                        className="mt-8 text-red-500 hover:bg-red-50 p-1 rounded-md"
                       >
                         <X className="w-4 h-4" />
                       </button>
                     </div>
 
+                    {/* Decision outcomes */}
+                    {subStep.kind === 'decision' ? (
+                      <div className="ml-7 space-y-2">
+                        {(subStep.outcomes ?? []).map(outcome => (
+                          <div key={outcome.id} className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              value={outcome.label}
+                              onChange={(e) => updateOutcome(selectedStep.id, subStep.id, outcome.id, { label: e.target.value })}
+                              placeholder="Outcome name"
+                              className={`flex-1 px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                                isDarkMode 
+                                  ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' 
+                                  : 'bg-white border-gray-200 text-gray-800 placeholder-gray-400'
+                              }`}
+                            />
+                            <ArrowRight className="w-4 h-4 text-blue-500" />
+                            <select
+                              value={outcome.targetStepId || ''}
+                              onChange={(e) => updateOutcome(selectedStep.id, subStep.id, outcome.id, {
+                                targetStepId: e.target.value || undefined
+                              })}
+                              className={`flex-1 px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                                isDarkMode 
+                                  ? 'bg-gray-700 border-gray-600 text-white' 
+                                  : 'bg-white border-gray-200 text-gray-800'
+                              }`}
+                            >
+                              <option value="">End the flow</option>
+                              {steps.map(s => (
+                                <option key={s.id} value={s.id}>{s.title}</option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() => deleteOutcome(selectedStep.id, subStep.id, outcome.id)}
+                              className="text-red-500 hover:bg-red-50 p-1 rounded-md"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() => addOutcome(selectedStep.id, subStep.id)}
+                          className="text-sm text-blue-500 hover:text-blue-600 flex items-center gap-1"
+                        >
+                          <PlusCircle className="w-4 h-4" />
+                          Add outcome
+                        </button>
+                      </div>
+                    ) : (
+                    <>
+                    {/* Input prompt */}
+                    {subStep.kind === 'input' && (
+                      <div className="ml-7 flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={subStep.input?.variable ?? ''}
+                          onChange={(e) => updateSubStepInput(selectedStep.id, subStep.id, { variable: e.target.value })}
+                          placeholder="Variable name"
+                          className={`w-40 px-3 py-2 rounded-lg border font-mono text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+                            isDarkMode 
+                              ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' 
+                              : 'bg-white border-gray-200 text-gray-800 placeholder-gray-400'
+                          }`}
+                        />
+                        <select
+                          value={subStep.input?.type ?? 'text'}
+                          onChange={(e) => updateSubStepInput(selectedStep.id, subStep.id, { type: e.target.value as VariableType })}
+                          className={`px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+                            isDarkMode 
+                              ? 'bg-gray-700 border-gray-600 text-white' 
+                              : 'bg-white border-gray-200 text-gray-800'
+                          }`}
+                        >
+                          <option value="text">Text</option>
+                          <option value="number">Number</option>
+                          <option value="choice">Choice</option>
+                        </select>
+                        {subStep.input?.type === 'choice' && (
+                          <input
+                            type="text"
+                            value={(subStep.input.options ?? []).join(',')}
+                            onChange={(e) => updateSubStepInput(selectedStep.id, subStep.id, {
+                              options: e.target.value.split(',').map(option => option.trimStart())
+                            })}
+                            placeholder="Options, separated by commas"
+                            className={`flex-1 px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+                              isDarkMode 
+                                ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' 
+                                : 'bg-white border-gray-200 text-gray-800 placeholder-gray-400'
+                            }`}
+                          />
+                        )}
+                      </div>
+                    )}
+
+                    {/* Branch condition */}
+                    {subStep.kind === 'branch' && (
+                      <div className="ml-7 space-y-1">
+                        <input
+                          type="text"
+                          value={subStep.condition ?? ''}
+                          onChange={(e) => updateSubStepCondition(selectedStep.id, subStep.id, e.target.value)}
+                          placeholder="Condition, e.g. tier == 'gold' and firmware < 3"
+                          className={`w-full px-3 py-2 rounded-lg border font-mono text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+                            isDarkMode 
+                              ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' 
+                              : 'bg-white border-gray-200 text-gray-800 placeholder-gray-400'
+                          }`}
+                        />
+                        <p className="text-xs text-gray-500">
+                          {flowVariables.length > 0
+                            ? `Variables: ${flowVariables.map(variable => variable.name).join(', ')}`
+                            : 'Add an input sub-step to define variables.'}
+                        </p>
+                      </div>
+                    )}
+
                     {/* Sub-step configuration */}
                     <div className="ml-7 grid grid-cols-2 gap-4">
                       {/* Success configuration */}
                       <div className="space-y-2">
                         <label className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-                          On Success:
+                          {subStep.kind === 'branch' ? 'If True:' : subStep.kind === 'input' ? 'Then:' : 'On Success:'}
                         </label>
                         <div className="flex gap-2">
                           <select
@@ -612,9 +1757,10 @@ const FlowDiagramBuilder = () => {
                       </div>
 
                       {/* Failure configuration */}
+                      {subStep.kind !== 'input' && (
                       <div className="space-y-2">
                         <label className={`text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-                          On Failure:
+                          {subStep.kind === 'branch' ? 'If False:' : 'On Failure:'}
                         </label>
                         <div className="flex gap-2">
                           <select
@@ -654,7 +1800,10 @@ const FlowDiagramBuilder = () => {
                           )}
                         </div>
                       </div>
+                      )}
                     </div>
+                    </>
+                    )}
                   </div>
                 ))}
                 <button
@@ -669,18 +1818,119 @@ const FlowDiagramBuilder = () => {
                   Add Sub-step
                 </button>
               </div>
+              )}
             </div>
           ) : (
-            <div className={`flex items-center justify-center h-full text-gray-500 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            <div className={`flex items-center justify-center flex-1 text-gray-500 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
               Select a step to view and edit its details
             </div>
           )}
+
+          <ProblemsPanel
+            issues={issues}
+            onSelectIssue={(issue) => {
+              if (!issue.stepId) return;
+              setSelectedStepId(issue.stepId);
+              setSelectedStepIds([issue.stepId]);
+            }}
+          />
         </div>
       </div>
 
+      {showLibrary && (
+        <FlowLibrary
+          flows={workspace.flows}
+          activeFlowId={workspace.activeFlowId}
+          onSwitch={switchFlow}
+          onCreate={createFlow}
+          onRename={renameFlow}
+          onDuplicate={duplicateFlow}
+          onDelete={deleteFlow}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {showExport && (
+        <ExportDialog
+          steps={steps}
+          flowName={activeFlow.name}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showSessions && (
+        <SessionsPanel
+          sessions={flowSessions}
+          steps={steps}
+          analytics={analytics}
+          flowName={activeFlow.name}
+          onDelete={(sessionId) => setSessions(prev => prev.filter(session => session.id !== sessionId))}
+          onClose={() => setShowSessions(false)}
+        />
+      )}
+
+      {showTemplates && (
+        <TemplateLibrary
+          templates={[...BUILT_IN_TEMPLATES, ...templates]}
+          selectionCount={clipboardCount}
+          onInsert={insertTemplate}
+          onSaveSelection={saveSelectionAsTemplate}
+          onDelete={deleteTemplate}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
+      {showPalette && (
+        <CommandPalette commands={getPaletteCommands()} onClose={() => setShowPalette(false)} />
+      )}
+
+      {showTestCases && (
+        <TestCasesDialog
+          steps={steps}
+          flowName={activeFlow.name}
+          runOptions={runOptions}
+          onClose={() => setShowTestCases(false)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportPreviewDialog
+          fileName={pendingImport.fileName}
+          result={pendingImport.result}
+          currentSteps={steps}
+          currentFlowName={activeFlow.name}
+          onConfirm={confirmImport}
+          onMerge={confirmMergeImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryPanel
+          entries={historyEntries}
+          currentIndex={historyIndex}
+          onJumpTo={jumpTo}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showFind && (
+        <FindReplacePanel
+          steps={steps}
+          onSelectMatch={selectFindMatch}
+          onReplace={replaceOne}
+          onReplaceAll={replaceEverywhere}
+          onClose={() => setShowFind(false)}
+        />
+      )}
+
       {showSimulation && (
         <FlowSimulation
           steps={steps}
+          flowId={workspace.activeFlowId}
+          flowName={activeFlow.name}
+          runOptions={runOptions}
+          onSessionEnd={recordSession}
           onClose={() => setShowSimulation(false)}
         />
       )}
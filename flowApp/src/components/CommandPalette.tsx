@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronRight, Search } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { fuzzyFilter } from '../utils/fuzzy';
+
+export interface PaletteItem {
+  id: string;
+  label: string;
+  // Shown dimmed on the right, e.g. a shortcut or the step type
+  detail?: string;
+  // An item either runs, opens a list to pick from (steps to link to, flows to open) or
+  // asks for a line of text (a new step's title)
+  run?: () => void;
+  items?: () => PaletteItem[];
+  prompt?: { placeholder: string; onSubmit: (text: string) => void };
+}
+
+interface Stage {
+  title?: string;
+  placeholder: string;
+  items: PaletteItem[];
+  onSubmit?: (text: string) => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteItem[];
+  onClose: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const { isDarkMode } = useDarkMode();
+  // Lists opened from a command; the commands themselves come from the props so they stay current
+  const [stages, setStages] = useState<Stage[]>([]);
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const stage = stages[stages.length - 1] ?? { placeholder: 'Type a command…', items: commands };
+  const matches = stage.onSubmit ? [] : fuzzyFilter(stage.items, query, item => item.label);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${highlighted}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [highlighted]);
+
+  const openStage = (next: Stage) => {
+    setStages(prev => [...prev, next]);
+    setQuery('');
+    setHighlighted(0);
+  };
+
+  const choose = (item: PaletteItem) => {
+    if (item.items) {
+      openStage({ title: item.label, placeholder: 'Search…', items: item.items() });
+    } else if (item.prompt) {
+      openStage({ title: item.label, placeholder: item.prompt.placeholder, items: [], onSubmit: item.prompt.onSubmit });
+    } else {
+      item.run?.();
+      onClose();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      // Escape steps back out of a sub-list before it closes the palette
+      if (stages.length > 0) {
+        setStages(prev => prev.slice(0, -1));
+        setQuery('');
+        setHighlighted(0);
+      } else {
+        onClose();
+      }
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (matches.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(prev => (prev + step + matches.length) % matches.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (stage.onSubmit) {
+        if (!query.trim()) return;
+        stage.onSubmit(query.trim());
+        onClose();
+      } else if (matches[highlighted]) {
+        choose(matches[highlighted]);
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 p-6 pt-[15vh]" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className={`w-full max-w-xl rounded-xl shadow-lg overflow-hidden ${
+          isDarkMode ? 'bg-gray-800 text-gray-100' : 'bg-white text-gray-800'
+        }`}
+      >
+        <div className={`px-4 py-3 flex items-center gap-2 border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <Search className="w-4 h-4 text-gray-500" />
+          {stage.title && (
+            <span className="text-sm text-gray-500 whitespace-nowrap">{stage.title}</span>
+          )}
+          <input
+            autoFocus
+            key={stages.length}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setHighlighted(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={stage.placeholder}
+            className={`flex-1 bg-transparent focus:outline-none ${isDarkMode ? 'placeholder-gray-500' : 'placeholder-gray-400'}`}
+          />
+        </div>
+
+        {stage.onSubmit ? (
+          <p className="px-4 py-3 text-sm text-gray-500">Press Enter to confirm, Escape to go back.</p>
+        ) : (
+          <div ref={listRef} className="max-h-80 overflow-y-auto py-2">
+            {matches.length === 0 && (
+              <p className="px-4 py-2 text-sm text-gray-500">No matches</p>
+            )}
+            {matches.map((item, index) => (
+              <button
+                key={item.id}
+                data-index={index}
+                onClick={() => choose(item)}
+                onMouseMove={() => setHighlighted(index)}
+                className={`w-full px-4 py-2 flex items-center gap-3 text-left text-sm ${
+                  index === highlighted ? isDarkMode ? 'bg-gray-700' : 'bg-blue-50' : ''
+                }`}
+              >
+                <span className="flex-1 truncate">{item.label}</span>
+                {item.detail && <span className="text-xs text-gray-500">{item.detail}</span>}
+                {(item.items || item.prompt) && <ChevronRight className="w-4 h-4 text-gray-500" />}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Copy, Download, X, Check } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { Step } from '../types/flow';
+import { DIAGRAM_FORMATS, DiagramFormat, exportDiagram } from '../utils/exporters';
+import { serializeFlowFile } from '../utils/flowFile';
+import { downloadFile, fileSlug } from '../utils/download';
+import { ImageTheme, renderFlowSvg, renderSvgToPng } from '../utils/renderImage';
+
+interface ExportDialogProps {
+  steps: Step[];
+  flowName: string;
+  onClose: () => void;
+}
+
+type ExportFormat = 'json' | DiagramFormat | 'svg' | 'png';
+
+const FORMATS: Array<{ id: ExportFormat; label: string; extension: string }> = [
+  { id: 'json', label: 'Flow JSON', extension: 'json' },
+  ...DIAGRAM_FORMATS,
+  { id: 'svg', label: 'SVG image', extension: 'svg' },
+  { id: 'png', label: 'PNG image', extension: 'png' }
+];
+
+const MIME_TYPES: Partial<Record<ExportFormat, string>> = {
+  json: 'application/json',
+  svg: 'image/svg+xml'
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ steps, flowName, onClose }) => {
+  const { isDarkMode } = useDarkMode();
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [copied, setCopied] = useState(false);
+  // 'print' forces the light palette regardless of the app theme
+  const [imageTheme, setImageTheme] = useState<'current' | 'print'>('current');
+
+  const isImage = format === 'svg' || format === 'png';
+  const theme: ImageTheme = imageTheme === 'print' || !isDarkMode ? 'light' : 'dark';
+  const image = isImage ? renderFlowSvg(steps, theme) : null;
+  const content = image
+    ? image.svg
+    : format === 'json' ? serializeFlowFile(steps, flowName) : exportDiagram(steps, format as DiagramFormat);
+  const extension = FORMATS.find(f => f.id === format)!.extension;
+
+  const copyToClipboard = async () => {
+    try {
+      if (format === 'png' && image) {
+        const blob = await renderSvgToPng(image);
+        await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+      } else {
+        await navigator.clipboard.writeText(content);
+      }
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      alert('Could not copy to the clipboard');
+    }
+  };
+
+  const download = async () => {
+    const date = new Date().toISOString().split('T')[0];
+    const fileName = `${fileSlug(flowName)}-${date}.${extension}`;
+    if (format === 'png' && image) {
+      try {
+        downloadFile(await renderSvgToPng(image), fileName, 'image/png');
+      } catch {
+        alert('Could not render the PNG image');
+      }
+      return;
+    }
+    downloadFile(content, fileName, MIME_TYPES[format] ?? 'text/plain');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-6">
+      <div className={`w-full max-w-3xl max-h-full flex flex-col rounded-xl shadow-lg ${
+        isDarkMode ? 'bg-gray-800 text-gray-100' : 'bg-white text-gray-800'
+      }`}>
+        <div className={`px-6 py-4 flex items-center justify-between border-b ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <h2 className="text-lg font-semibold">Export {flowName}</h2>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-500/20">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 flex flex-col gap-4 min-h-0">
+          {/* Format Tabs */}
+          <div className="flex flex-wrap gap-2">
+            {FORMATS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setFormat(option.id)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                  format === option.id
+                    ? 'bg-blue-600 text-white'
+                    : isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {image ? (
+            <>
+              <select
+                value={imageTheme}
+                onChange={(e) => setImageTheme(e.target.value as 'current' | 'print')}
+                className={`self-start px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-200 text-gray-800'
+                }`}
+              >
+                <option value="current">Current theme ({isDarkMode ? 'dark' : 'light'})</option>
+                <option value="print">Print-friendly (light)</option>
+              </select>
+              <div className={`h-96 overflow-auto rounded-lg border ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                <img
+                  src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`}
+                  alt={`${flowName} diagram`}
+                  width={image.width}
+                  height={image.height}
+                  className="max-w-none"
+                />
+              </div>
+            </>
+          ) : (
+            <textarea
+              readOnly
+              value={content}
+              className={`h-96 w-full p-3 rounded-lg border font-mono text-xs resize-none focus:outline-none ${
+                isDarkMode ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'
+              }`}
+            />
+          )}
+        </div>
+
+        <div className={`px-6 py-4 flex justify-end gap-3 border-t ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <button
+            onClick={copyToClipboard}
+            className={`px-4 py-2 rounded-lg flex items-center gap-2 ${
+              isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+            }`}
+          >
+            {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button
+            onClick={download}
+            className="px-4 py-2 rounded-lg flex items-center gap-2 bg-blue-600 text-white hover:bg-blue-700"
+          >
+            <Download className="w-4 h-4" />
+            Download .{extension}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
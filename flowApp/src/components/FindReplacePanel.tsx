@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { CaseSensitive, Regex, Search, X } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { Step } from '../types/flow';
+import { FindMatch, FindOptions, findMatches, getMatchContext } from '../utils/findReplace';
+
+interface FindReplacePanelProps {
+  steps: Step[];
+  onSelectMatch: (match: FindMatch) => void;
+  onReplace: (match: FindMatch, options: FindOptions, replacement: string) => void;
+  onReplaceAll: (options: FindOptions, replacement: string) => void;
+  onClose: () => void;
+}
+
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ steps, onSelectMatch, onReplace, onReplaceAll, onClose }) => {
+  const { isDarkMode } = useDarkMode();
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [isCaseSensitive, setIsCaseSensitive] = useState(false);
+  const [activeMatchId, setActiveMatchId] = useState<string | null>(null);
+
+  const options: FindOptions = { query, isRegex, isCaseSensitive };
+  const { matches, error } = useMemo(
+    () => findMatches(steps, { query, isRegex, isCaseSensitive }),
+    [steps, query, isRegex, isCaseSensitive]
+  );
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-200 text-gray-800 placeholder-gray-400'
+  }`;
+  const toggleClass = (active: boolean) => `p-2 rounded-md ${
+    active ? 'bg-blue-600 text-white' : 'text-gray-500 hover:bg-gray-500/20'
+  }`;
+
+  const selectMatch = (match: FindMatch) => {
+    setActiveMatchId(match.id);
+    onSelectMatch(match);
+  };
+
+  // Enter in the search field walks through the matches, Shift+Enter backwards
+  const selectNext = (backwards: boolean) => {
+    if (matches.length === 0) return;
+    const index = matches.findIndex(match => match.id === activeMatchId);
+    const next = index === -1
+      ? backwards ? matches.length - 1 : 0
+      : (index + (backwards ? -1 : 1) + matches.length) % matches.length;
+    selectMatch(matches[next]);
+  };
+
+  const describe = (match: FindMatch) => {
+    const step = steps.find(candidate => candidate.id === match.stepId);
+    if (match.field === 'title') return `${step?.title || 'Untitled step'} · title`;
+    const subStepIndex = step?.subSteps.findIndex(subStep => subStep.id === match.subStepId) ?? -1;
+    return `${step?.title || 'Untitled step'} · sub-step ${subStepIndex + 1}`;
+  };
+
+  return (
+    <div className={`fixed top-20 right-4 z-40 w-96 rounded-xl shadow-lg border ${
+      isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+    }`}>
+      <div className={`px-4 py-3 flex items-center justify-between border-b ${
+        isDarkMode ? 'border-gray-700' : 'border-gray-200'
+      }`}>
+        <span className="flex items-center gap-2 font-semibold">
+          <Search className="w-4 h-4" />
+          Find and replace
+        </span>
+        <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-500/20">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-2">
+        <div className="flex items-center gap-1">
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveMatchId(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                selectNext(e.shiftKey);
+              } else if (e.key === 'Escape') {
+                onClose();
+              }
+            }}
+            placeholder="Find in titles and sub-steps"
+            className={inputClass}
+          />
+          <button onClick={() => setIsCaseSensitive(!isCaseSensitive)} title="Match case" className={toggleClass(isCaseSensitive)}>
+            <CaseSensitive className="w-4 h-4" />
+          </button>
+          <button onClick={() => setIsRegex(!isRegex)} title="Regular expression" className={toggleClass(isRegex)}>
+            <Regex className="w-4 h-4" />
+          </button>
+        </div>
+        <input
+          type="text"
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          placeholder={isRegex ? 'Replace with ($1 inserts a group)' : 'Replace with'}
+          className={inputClass}
+        />
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          {error
+            ? <span className="text-red-500">{error}</span>
+            : <span>{query ? `${matches.length} match${matches.length === 1 ? '' : 'es'}` : ''}</span>}
+          <button
+            onClick={() => onReplaceAll(options, replacement)}
+            disabled={matches.length === 0}
+            className="px-3 py-1.5 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-40"
+          >
+            Replace all
+          </button>
+        </div>
+      </div>
+
+      {/* Matches */}
+      {matches.length > 0 && (
+        <div className={`max-h-80 overflow-y-auto py-1 border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          {matches.map(match => {
+            const context = getMatchContext(steps, match);
+            return (
+              <div
+                key={match.id}
+                onClick={() => selectMatch(match)}
+                className={`group px-4 py-2 cursor-pointer text-sm ${
+                  match.id === activeMatchId ? isDarkMode ? 'bg-gray-700' : 'bg-blue-50' : 'hover:bg-gray-500/10'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                  <span className="truncate">{describe(match)}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onReplace(match, options, replacement);
+                    }}
+                    className="invisible group-hover:visible hover:text-blue-500"
+                  >
+                    Replace
+                  </button>
+                </div>
+                <div className="truncate">
+                  {context.before}
+                  <mark className={`rounded px-0.5 ${isDarkMode ? 'bg-yellow-700 text-white' : 'bg-yellow-200'}`}>
+                    {context.matched}
+                  </mark>
+                  {context.after}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FindReplacePanel;
@@ -0,0 +1,157 @@
+import React from 'react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { Step } from '../types/flow';
+import { FlowAnalytics } from '../utils/analytics';
+import { FlowEdge } from '../utils/graph';
+import { summarizeMarkdown } from '../utils/markdown';
+import { formatDuration } from '../utils/sessionReport';
+
+interface FlowAnalyticsViewProps {
+  steps: Step[];
+  analytics: FlowAnalytics;
+}
+
+const FlowAnalyticsView: React.FC<FlowAnalyticsViewProps> = ({ steps, analytics }) => {
+  const { isDarkMode } = useDarkMode();
+
+  const titleOf = (stepId: string) => steps.find(step => step.id === stepId)?.title || 'Untitled step';
+  const maxVisits = Math.max(1, ...Array.from(analytics.stepVisits.values()));
+
+  const describeEdge = (edge: FlowEdge) => {
+    const source = steps.find(step => step.id === edge.source);
+    const subStepIndex = source?.subSteps.findIndex(subStep => subStep.id === edge.subStepId) ?? -1;
+    const kind = edge.kind === 'outcome' ? `"${edge.label}"` : edge.kind;
+    const via = edge.subStepId ? `sub-step ${subStepIndex + 1} ${kind}` : kind;
+    return `${titleOf(edge.source)} → ${titleOf(edge.target)} (${via})`;
+  };
+
+  const sectionTitle = (title: string) => (
+    <h3 className={`mb-2 text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>{title}</h3>
+  );
+
+  const card = `rounded-lg border ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`;
+
+  if (analytics.runCount === 0) {
+    return (
+      <p className="px-6 py-8 text-sm text-center text-gray-500">
+        Analytics appear once runs of this flow have been recorded.
+      </p>
+    );
+  }
+
+  return (
+    <div className="px-6 py-4 flex flex-col gap-6">
+      {/* Summary */}
+      <div className="grid grid-cols-3 gap-3">
+        {[
+          { label: 'Runs', value: analytics.runCount },
+          { label: 'Completed', value: analytics.completedCount },
+          {
+            label: 'Average time to complete',
+            value: analytics.averageCompletionMs !== undefined ? formatDuration(analytics.averageCompletionMs) : '—'
+          }
+        ].map(item => (
+          <div key={item.label} className={`${card} px-4 py-3`}>
+            <div className="text-xs text-gray-500">{item.label}</div>
+            <div className="text-xl font-semibold">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Visits per Step and Sub-step */}
+      <div>
+        {sectionTitle('Visits')}
+        <div className={`${card} divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+          {steps.map(step => {
+            const visits = analytics.stepVisits.get(step.id) ?? 0;
+            return (
+              <div key={step.id} className="px-4 py-2 text-sm">
+                <div className="flex items-center gap-3">
+                  <span className="flex-1 font-medium truncate">{step.title || 'Untitled step'}</span>
+                  <div className="w-32 h-1.5 rounded-full bg-gray-500/20">
+                    <div className="h-full rounded-full bg-orange-500" style={{ width: `${(visits / maxVisits) * 100}%` }} />
+                  </div>
+                  <span className="w-16 text-right text-gray-500">{visits} visit{visits === 1 ? '' : 's'}</span>
+                </div>
+                {step.subSteps.map((subStep, index) => {
+                  const stats = analytics.subStepStats.get(subStep.id);
+                  return (
+                    <div key={subStep.id} className={`mt-1 ml-4 flex items-center gap-3 text-xs ${
+                      isDarkMode ? 'text-gray-400' : 'text-gray-500'
+                    }`}>
+                      <span className="flex-1 truncate">{index + 1}. {summarizeMarkdown(subStep.content) || '(empty)'}</span>
+                      {stats && subStep.kind === 'decision' ? (
+                        <span className="text-right">
+                          {(subStep.outcomes ?? []).map(outcome =>
+                            `${outcome.label || '(unnamed)'}: ${stats.outcomes.get(outcome.id) ?? 0}`
+                          ).join(' · ')}
+                        </span>
+                      ) : stats ? (
+                        <>
+                          {/* Success / failure ratio */}
+                          <div className="w-32 h-1.5 rounded-full overflow-hidden flex bg-gray-500/20">
+                            <div className="h-full bg-green-500" style={{ width: `${(stats.successes / stats.visits) * 100}%` }} />
+                            <div className="h-full bg-red-500" style={{ width: `${(stats.failures / stats.visits) * 100}%` }} />
+                          </div>
+                          <span className="w-16 text-right">
+                            <span className="text-green-500">{stats.successes}</span>
+                            {' / '}
+                            <span className="text-red-500">{stats.failures}</span>
+                          </span>
+                        </>
+                      ) : (
+                        <span className="w-48 text-right italic">never answered</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* End Steps */}
+      <div>
+        {sectionTitle('Most common end steps')}
+        {analytics.endSteps.length === 0 ? (
+          <p className="text-sm text-gray-500">No run has reached the end of the flow yet.</p>
+        ) : (
+          <div className={`${card} divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+            {analytics.endSteps.map(end => (
+              <div key={end.stepId ?? end.title} className="px-4 py-2 flex justify-between text-sm">
+                <span>{end.title}</span>
+                <span className="text-gray-500">
+                  {end.count} run{end.count === 1 ? '' : 's'} ({Math.round((end.count / analytics.completedCount) * 100)}%)
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Coverage Gaps */}
+      <div>
+        {sectionTitle('Never exercised')}
+        {analytics.unvisitedStepIds.length === 0 && analytics.unusedEdges.length === 0 ? (
+          <p className="text-sm text-gray-500">Every step and link has been used in at least one run.</p>
+        ) : (
+          <ul className="text-sm space-y-1">
+            {analytics.unvisitedStepIds.map(stepId => (
+              <li key={stepId}>Step: {titleOf(stepId)}</li>
+            ))}
+            {analytics.unusedEdges.map(edge => (
+              <li key={edge.id} className={
+                edge.kind === 'success' ? 'text-green-500' : edge.kind === 'failure' ? 'text-red-500' : 'text-blue-500'
+              }>
+                Link: {describeEdge(edge)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FlowAnalyticsView;
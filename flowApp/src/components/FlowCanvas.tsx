@@ -0,0 +1,408 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize, LayoutGrid } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { Step, StepPosition, StepResult } from '../types/flow';
+import { EdgeKind, NODE_WIDTH, NODE_HEIGHT, getStepEdges, getStepPosition } from '../utils/graph';
+import { LayoutDirection } from '../utils/layout';
+
+interface FlowCanvasProps {
+  steps: Step[];
+  selectedStepId: string | null;
+  // Steps picked with shift-click, used to scope commands such as auto-arrange
+  selectedStepIds: string[];
+  onSelectStep: (stepId: string) => void;
+  onToggleStepSelection: (stepId: string) => void;
+  onClearSelection: () => void;
+  onAutoArrange: (direction: LayoutDirection) => void;
+  onOpenStep: (stepId: string) => void;
+  onConnect: (sourceId: string, targetId: string, kind: StepResult) => void;
+  onMoveStep: (stepId: string, position: StepPosition) => void;
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+type Interaction =
+  | { type: 'pan'; startX: number; startY: number; originX: number; originY: number; moved: boolean }
+  | { type: 'drag'; stepId: string; startX: number; startY: number; origin: StepPosition; moved: boolean }
+  | { type: 'connect'; sourceId: string; kind: StepResult; pointer: StepPosition };
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 2;
+const PORT_RADIUS = 7;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const EDGE_COLORS: Record<EdgeKind, string> = {
+  success: '#22c55e',
+  failure: '#ef4444',
+  outcome: '#3b82f6'
+};
+
+// Success leaves from the bottom-left of a node, failure from the bottom-right and
+// decision outcomes from the middle
+const getPortPosition = (position: StepPosition, kind: EdgeKind): StepPosition => ({
+  x: position.x + (kind === 'success' ? NODE_WIDTH / 3 : kind === 'failure' ? (NODE_WIDTH * 2) / 3 : NODE_WIDTH / 2),
+  y: position.y + NODE_HEIGHT
+});
+
+const getEdgePath = (from: StepPosition, to: StepPosition, isSelfLoop: boolean) => {
+  if (isSelfLoop) {
+    const loopX = to.x + NODE_WIDTH / 2 + 40;
+    return `M ${from.x} ${from.y} C ${from.x} ${from.y + 50}, ${loopX} ${from.y + 50}, ${loopX} ${to.y + NODE_HEIGHT / 2} `
+      + `S ${to.x + NODE_WIDTH / 2} ${to.y - 40}, ${to.x + NODE_WIDTH / 2} ${to.y}`;
+  }
+  const targetX = to.x + NODE_WIDTH / 2;
+  const curve = Math.max(40, Math.abs(to.y - from.y) / 2);
+  return `M ${from.x} ${from.y} C ${from.x} ${from.y + curve}, ${targetX} ${to.y - curve}, ${targetX} ${to.y}`;
+};
+
+const FlowCanvas: React.FC<FlowCanvasProps> = ({
+  steps,
+  selectedStepId,
+  selectedStepIds,
+  onSelectStep,
+  onToggleStepSelection,
+  onClearSelection,
+  onAutoArrange,
+  onOpenStep,
+  onConnect,
+  onMoveStep
+}) => {
+  const { isDarkMode } = useDarkMode();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, zoom: 1 });
+  const [interaction, setInteraction] = useState<Interaction | null>(null);
+  const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>('TB');
+  // Position of the node being dragged, committed to the step on release
+  const [draftPosition, setDraftPosition] = useState<{ stepId: string; position: StepPosition } | null>(null);
+
+  const positions = new Map<string, StepPosition>();
+  steps.forEach((step, index) => {
+    positions.set(
+      step.id,
+      draftPosition?.stepId === step.id ? draftPosition.position : getStepPosition(step, index)
+    );
+  });
+  const edges = getStepEdges(steps);
+
+  // Wheel zoom needs a non-passive listener so the page does not scroll
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const pointerX = e.clientX - rect.left;
+      const pointerY = e.clientY - rect.top;
+
+      setViewport(prev => {
+        const zoom = clampZoom(prev.zoom * (e.deltaY < 0 ? 1.1 : 0.9));
+        const scale = zoom / prev.zoom;
+        return {
+          zoom,
+          x: pointerX - (pointerX - prev.x) * scale,
+          y: pointerY - (pointerY - prev.y) * scale
+        };
+      });
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const toWorld = (clientX: number, clientY: number): StepPosition => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return {
+      x: (clientX - (rect?.left ?? 0) - viewport.x) / viewport.zoom,
+      y: (clientY - (rect?.top ?? 0) - viewport.y) / viewport.zoom
+    };
+  };
+
+  const zoomBy = (factor: number) => {
+    setViewport(prev => ({ ...prev, zoom: clampZoom(prev.zoom * factor) }));
+  };
+
+  const fitToView = () => {
+    const container = containerRef.current;
+    if (!container || steps.length === 0) {
+      setViewport({ x: 0, y: 0, zoom: 1 });
+      return;
+    }
+
+    const all = Array.from(positions.values());
+    const minX = Math.min(...all.map(p => p.x));
+    const minY = Math.min(...all.map(p => p.y));
+    const maxX = Math.max(...all.map(p => p.x + NODE_WIDTH));
+    const maxY = Math.max(...all.map(p => p.y + NODE_HEIGHT));
+    const padding = 40;
+    const zoom = clampZoom(Math.min(
+      container.clientWidth / (maxX - minX + padding * 2),
+      container.clientHeight / (maxY - minY + padding * 2),
+      1
+    ));
+
+    setViewport({
+      zoom,
+      x: padding * zoom - minX * zoom,
+      y: padding * zoom - minY * zoom
+    });
+  };
+
+  const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    setInteraction({
+      type: 'pan',
+      startX: e.clientX,
+      startY: e.clientY,
+      originX: viewport.x,
+      originY: viewport.y,
+      moved: false
+    });
+  };
+
+  const handleNodePointerDown = (e: React.PointerEvent, stepId: string) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    const origin = positions.get(stepId);
+    if (!origin) return;
+    setInteraction({ type: 'drag', stepId, startX: e.clientX, startY: e.clientY, origin, moved: false });
+  };
+
+  const handlePortPointerDown = (e: React.PointerEvent, sourceId: string, kind: StepResult) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    setInteraction({ type: 'connect', sourceId, kind, pointer: toWorld(e.clientX, e.clientY) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!interaction) return;
+
+    if (interaction.type === 'pan') {
+      if (!interaction.moved) setInteraction({ ...interaction, moved: true });
+      setViewport(prev => ({
+        ...prev,
+        x: interaction.originX + e.clientX - interaction.startX,
+        y: interaction.originY + e.clientY - interaction.startY
+      }));
+    } else if (interaction.type === 'drag') {
+      const dx = (e.clientX - interaction.startX) / viewport.zoom;
+      const dy = (e.clientY - interaction.startY) / viewport.zoom;
+      if (!interaction.moved && Math.abs(dx) + Math.abs(dy) < 3) return;
+      if (!interaction.moved) setInteraction({ ...interaction, moved: true });
+      setDraftPosition({
+        stepId: interaction.stepId,
+        position: { x: Math.round(interaction.origin.x + dx), y: Math.round(interaction.origin.y + dy) }
+      });
+    } else {
+      setInteraction({ ...interaction, pointer: toWorld(e.clientX, e.clientY) });
+    }
+  };
+
+  const handleNodePointerUp = (stepId: string) => {
+    // The ports sit inside their node, so a click on a port also ends up here
+    if (interaction?.type === 'connect' && stepId !== interaction.sourceId) {
+      onConnect(interaction.sourceId, stepId, interaction.kind);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (interaction?.type === 'drag') {
+      if (interaction.moved && draftPosition) {
+        onMoveStep(draftPosition.stepId, draftPosition.position);
+      } else if (e.shiftKey) {
+        onToggleStepSelection(interaction.stepId);
+      } else {
+        onSelectStep(interaction.stepId);
+      }
+    } else if (interaction?.type === 'pan' && !interaction.moved) {
+      onClearSelection();
+    }
+    setDraftPosition(null);
+    setInteraction(null);
+  };
+
+  const connectingSource = interaction?.type === 'connect' ? positions.get(interaction.sourceId) : undefined;
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handleBackgroundPointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+      className={`relative w-full h-full overflow-hidden rounded-xl select-none ${
+        interaction?.type === 'pan' ? 'cursor-grabbing' : 'cursor-grab'
+      } ${isDarkMode ? 'bg-gray-800' : 'bg-white'} shadow-sm`}
+    >
+      <div
+        className="absolute top-0 left-0 origin-top-left"
+        style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})` }}
+      >
+        {/* Edges */}
+        <svg className="absolute top-0 left-0 overflow-visible pointer-events-none" width={1} height={1}>
+          <defs>
+            <marker id="arrow-success" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#22c55e" />
+            </marker>
+            <marker id="arrow-failure" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#ef4444" />
+            </marker>
+            <marker id="arrow-outcome" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#3b82f6" />
+            </marker>
+          </defs>
+          {edges.map(edge => {
+            const source = positions.get(edge.source);
+            const target = positions.get(edge.target);
+            if (!source || !target) return null;
+            const from = getPortPosition(source, edge.kind);
+            return (
+              <g key={edge.id}>
+                <path
+                  d={getEdgePath(from, target, edge.source === edge.target)}
+                  fill="none"
+                  stroke={EDGE_COLORS[edge.kind]}
+                  strokeWidth={2}
+                  strokeDasharray={edge.subStepId ? '6 4' : undefined}
+                  markerEnd={`url(#arrow-${edge.kind})`}
+                />
+                {edge.label && (
+                  <text
+                    x={(from.x + target.x + NODE_WIDTH / 2) / 2}
+                    y={(from.y + target.y) / 2}
+                    textAnchor="middle"
+                    fontSize={12}
+                    fill={EDGE_COLORS[edge.kind]}
+                  >
+                    {edge.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          {interaction?.type === 'connect' && connectingSource && (
+            <line
+              x1={getPortPosition(connectingSource, interaction.kind).x}
+              y1={getPortPosition(connectingSource, interaction.kind).y}
+              x2={interaction.pointer.x}
+              y2={interaction.pointer.y}
+              stroke={EDGE_COLORS[interaction.kind]}
+              strokeWidth={2}
+              strokeDasharray="4 4"
+            />
+          )}
+        </svg>
+
+        {/* Nodes */}
+        {steps.map(step => {
+          const position = positions.get(step.id)!;
+          return (
+            <div
+              key={step.id}
+              onPointerDown={(e) => handleNodePointerDown(e, step.id)}
+              onPointerUp={() => handleNodePointerUp(step.id)}
+              onDoubleClick={() => onOpenStep(step.id)}
+              className={`absolute rounded-lg border-2 px-3 py-2 shadow-md cursor-move ${
+                isDarkMode ? 'bg-gray-700 text-white' : 'bg-gray-50 text-gray-800'
+              } ${
+                selectedStepId === step.id
+                  ? 'border-blue-500 ring-2 ring-blue-500'
+                  : selectedStepIds.includes(step.id)
+                  ? 'border-blue-400 ring-2 ring-blue-300'
+                  : step.type === 'success'
+                  ? 'border-green-500'
+                  : step.type === 'failure'
+                  ? 'border-red-500'
+                  : step.type === 'subflow'
+                  ? 'border-indigo-500 border-dashed'
+                  : isDarkMode ? 'border-gray-600' : 'border-gray-300'
+              }`}
+              style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+            >
+              <div className="font-medium truncate">{step.title}</div>
+              <div className="text-xs text-gray-500">
+                {step.type === 'subflow' ? 'Sub-flow' : `${step.subSteps.length} sub-steps`}
+              </div>
+
+              {/* Success / failure ports */}
+              {(['success', 'failure'] as const).map(kind => (
+                <div
+                  key={kind}
+                  title={kind === 'success' ? 'Drag to connect success' : 'Drag to connect failure'}
+                  onPointerDown={(e) => handlePortPointerDown(e, step.id, kind)}
+                  className={`absolute rounded-full border-2 cursor-crosshair ${
+                    isDarkMode ? 'border-gray-900' : 'border-white'
+                  } ${kind === 'success' ? 'bg-green-500' : 'bg-red-500'}`}
+                  style={{
+                    width: PORT_RADIUS * 2,
+                    height: PORT_RADIUS * 2,
+                    left: getPortPosition({ x: 0, y: 0 }, kind).x - PORT_RADIUS - 2,
+                    top: NODE_HEIGHT - PORT_RADIUS - 2
+                  }}
+                />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Layout Controls */}
+      <div
+        onPointerDown={(e) => e.stopPropagation()}
+        className={`absolute top-4 left-4 flex items-center gap-2 p-1 rounded-lg shadow ${
+          isDarkMode ? 'bg-gray-700' : 'bg-gray-100'
+        }`}
+      >
+        <button
+          onClick={() => onAutoArrange(layoutDirection)}
+          disabled={steps.length === 0}
+          className="px-3 py-1.5 rounded-md flex items-center gap-2 text-sm hover:bg-gray-500/20 disabled:opacity-50"
+        >
+          <LayoutGrid className="w-4 h-4" />
+          {selectedStepIds.length > 1 ? `Auto-arrange ${selectedStepIds.length} selected` : 'Auto-arrange'}
+        </button>
+        <select
+          value={layoutDirection}
+          onChange={(e) => setLayoutDirection(e.target.value as LayoutDirection)}
+          className={`px-2 py-1.5 rounded-md text-sm border focus:outline-none ${
+            isDarkMode ? 'bg-gray-800 border-gray-600 text-white' : 'bg-white border-gray-200 text-gray-800'
+          }`}
+        >
+          <option value="TB">Top to bottom</option>
+          <option value="LR">Left to right</option>
+        </select>
+      </div>
+
+      {/* Zoom Controls */}
+      <div
+        onPointerDown={(e) => e.stopPropagation()}
+        className={`absolute bottom-4 right-4 flex gap-1 p-1 rounded-lg shadow ${
+          isDarkMode ? 'bg-gray-700' : 'bg-gray-100'
+        }`}
+      >
+        <button onClick={() => zoomBy(1.2)} className="p-2 rounded-md hover:bg-gray-500/20" title="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={() => zoomBy(1 / 1.2)} className="p-2 rounded-md hover:bg-gray-500/20" title="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button onClick={fitToView} className="p-2 rounded-md hover:bg-gray-500/20" title="Fit to view">
+          <Maximize className="w-4 h-4" />
+        </button>
+      </div>
+
+      {steps.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-gray-500 pointer-events-none">
+          Add a step to start building the diagram
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlowCanvas;
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { FolderOpen, PlusCircle, Copy, Trash2, Pencil, Search, X, Check } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { FlowMeta, loadFlowSteps } from '../utils/workspace';
+
+interface FlowLibraryProps {
+  flows: FlowMeta[];
+  activeFlowId: string;
+  onSwitch: (flowId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (flowId: string, name: string) => void;
+  onDuplicate: (flowId: string) => void;
+  onDelete: (flowId: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const FlowLibrary: React.FC<FlowLibraryProps> = ({
+  flows,
+  activeFlowId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onClose
+}) => {
+  const { isDarkMode } = useDarkMode();
+  const [query, setQuery] = useState('');
+  const [newFlowName, setNewFlowName] = useState('');
+  const [editing, setEditing] = useState<{ flowId: string; name: string } | null>(null);
+
+  // Matches flow names and, failing that, the titles of the steps inside each flow
+  const results = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    const sorted = [...flows].sort((a, b) => b.updatedAt - a.updatedAt);
+    if (!term) return sorted.map(flow => ({ flow, matchingSteps: [] as string[] }));
+
+    return sorted
+      .map(flow => ({
+        flow,
+        matchingSteps: loadFlowSteps(flow.id)
+          .filter(step => step.title.toLowerCase().includes(term))
+          .map(step => step.title)
+      }))
+      .filter(({ flow, matchingSteps }) =>
+        flow.name.toLowerCase().includes(term) || matchingSteps.length > 0
+      );
+  }, [flows, query]);
+
+  const inputClassName = `px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-200 text-gray-800 placeholder-gray-400'
+  }`;
+
+  const submitNewFlow = () => {
+    if (!newFlowName.trim()) return;
+    onCreate(newFlowName.trim());
+    setNewFlowName('');
+  };
+
+  const submitRename = () => {
+    if (editing && editing.name.trim()) {
+      onRename(editing.flowId, editing.name.trim());
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div className={`fixed top-20 left-4 z-40 w-96 rounded-xl shadow-lg border ${
+      isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+    }`}>
+      <div className={`px-4 py-3 flex items-center justify-between border-b ${
+        isDarkMode ? 'border-gray-700' : 'border-gray-200'
+      }`}>
+        <span className="flex items-center gap-2 font-semibold">
+          <FolderOpen className="w-4 h-4" />
+          Flow Library
+        </span>
+        <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-500/20">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {/* Search */}
+        <div className="relative">
+          <Search className="w-4 h-4 absolute left-3 top-3 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search flows and step titles"
+            className={`w-full pl-9 ${inputClassName}`}
+          />
+        </div>
+
+        {/* New Flow */}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newFlowName}
+            onChange={(e) => setNewFlowName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && submitNewFlow()}
+            placeholder="New flow name"
+            className={`flex-1 ${inputClassName}`}
+          />
+          <button
+            onClick={submitNewFlow}
+            className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            <PlusCircle className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto pb-2">
+        {results.length === 0 && (
+          <div className="px-4 py-3 text-sm text-gray-500">No flows match your search</div>
+        )}
+        {results.map(({ flow, matchingSteps }) => (
+          <div
+            key={flow.id}
+            onClick={() => flow.id !== activeFlowId && onSwitch(flow.id)}
+            className={`mx-2 px-3 py-2 rounded-lg cursor-pointer ${
+              flow.id === activeFlowId
+                ? isDarkMode ? 'bg-gray-700 ring-2 ring-blue-500' : 'bg-blue-50 ring-2 ring-blue-500'
+                : 'hover:bg-gray-500/10'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              {editing?.flowId === flow.id ? (
+                <input
+                  autoFocus
+                  type="text"
+                  value={editing.name}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') submitRename();
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  className={`flex-1 py-1 ${inputClassName}`}
+                />
+              ) : (
+                <span className="font-medium truncate">{flow.name}</span>
+              )}
+
+              <div className="flex items-center gap-1 shrink-0" onClick={(e) => e.stopPropagation()}>
+                {editing?.flowId === flow.id ? (
+                  <button onClick={submitRename} title="Save name" className="p-1 rounded-md hover:bg-gray-500/20">
+                    <Check className="w-4 h-4 text-green-500" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setEditing({ flowId: flow.id, name: flow.name })}
+                    title="Rename"
+                    className="p-1 rounded-md hover:bg-gray-500/20"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                )}
+                <button onClick={() => onDuplicate(flow.id)} title="Duplicate" className="p-1 rounded-md hover:bg-gray-500/20">
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Delete "${flow.name}"? This cannot be undone.`)) {
+                      onDelete(flow.id);
+                    }
+                  }}
+                  disabled={flows.length === 1}
+                  title={flows.length === 1 ? 'The last flow cannot be deleted' : 'Delete'}
+                  className="p-1 rounded-md text-red-500 hover:bg-red-500/10 disabled:opacity-40"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <div className="text-xs text-gray-500">Modified {formatDate(flow.updatedAt)}</div>
+            {matchingSteps.length > 0 && (
+              <div className="text-xs text-gray-500 truncate">
+                Steps: {matchingSteps.join(', ')}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FlowLibrary;
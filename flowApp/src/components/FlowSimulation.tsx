@@ -1,133 +1,316 @@
-import React, { useState } from 'react';
-import { X, Check, XCircle, ArrowRight } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { X, Check, XCircle, Undo2, RotateCcw, GitBranch, Clock, User } from 'lucide-react';
 import { useDarkMode } from '../context/DarkModeContext';
 import { motion, AnimatePresence } from 'framer-motion';
+import { Choice, InputPrompt, Step, SubStep, VariableValue } from '../types/flow';
+import { SessionEntry, SimulationSession } from '../types/session';
+import { generateId } from '../utils/id';
+import { RunOptions, getChoiceLabel, getChoices, isBranch, isDecision, isInput, replayRun } from '../utils/flowEngine';
+import { loadOperatorName, saveOperatorName } from '../utils/sessions';
+import { interpolate, parseInputValue } from '../utils/variables';
+import { isEditableTarget } from '../utils/keyboard';
+import { summarizeMarkdown } from '../utils/markdown';
+import { CHOICE_STYLES, SEVERITY_STYLES, estimateRunMinutes, formatMinutes } from '../utils/stepMetadata';
+import MarkdownContent from './MarkdownContent';
 
-interface SubStep {
-  id: string;
-  content: string;
-  successAction: 'next' | 'goto';
-  failureAction: 'next' | 'goto';
-  successStepId?: string;
-  failureStepId?: string;
+interface FlowSimulationProps {
+  steps: Step[];
+  flowId: string;
+  flowName: string;
+  // Resolves the flows called by sub-flow steps
+  runOptions: RunOptions;
+  // Called with the main path whenever a run with at least one answer ends
+  onSessionEnd: (session: SimulationSession) => void;
+  onClose: () => void;
 }
 
-interface Step {
-  id: string;
-  title: string;
-  type: 'normal' | 'success' | 'failure' | 'decision';
-  subSteps: SubStep[];
-  expanded: boolean;
-  successStepId?: string;
-  failureStepId?: string;
+const choiceStyle = (choice: Choice) =>
+  CHOICE_STYLES[typeof choice === 'string' ? choice : 'outcomeId' in choice ? 'outcome' : 'input'];
+
+// Keyboard answers: S / 1 and F / 2 for checks, 1-9 for the outcomes of a decision or the
+// options of a choice input. Typed inputs and automatic branches have no hotkeys.
+const getHotkeyChoice = (subStep: SubStep | undefined, key: string): Choice | undefined => {
+  if (!subStep || isBranch(subStep)) return undefined;
+  if (isDecision(subStep) || isInput(subStep)) {
+    if (isInput(subStep) && !subStep.input?.variable.trim()) return undefined;
+    return /^[1-9]$/.test(key) ? getChoices(subStep)[Number(key) - 1] : undefined;
+  }
+  const lower = key.toLowerCase();
+  if (lower === 's' || key === '1') return 'success';
+  if (lower === 'f' || key === '2') return 'failure';
+  return undefined;
+};
+
+// A lane is one walk through the flow, described by the choices made so far
+interface Lane {
+  choices: Choice[];
+  // When each choice was made, used to time the sub-steps
+  times: number[];
+  // Index of the choice where this lane diverged from the main path
+  forkIndex?: number;
 }
 
-interface FlowSimulationProps {
-  steps: Step[];
-  onClose: () => void;
+interface InputAnswerProps {
+  input: InputPrompt;
+  onSubmit: (value: VariableValue) => void;
 }
 
-const FlowSimulation: React.FC<FlowSimulationProps> = ({ steps, onClose }) => {
+// Text and number answers are typed in and only accepted once they fit the input
+const InputAnswer: React.FC<InputAnswerProps> = ({ input, onSubmit }) => {
   const { isDarkMode } = useDarkMode();
-  const [activeStep, setActiveStep] = useState(steps[0]);
-  const [activeSubStepIndex, setActiveSubStepIndex] = useState(0);
-  const [flowPath, setFlowPath] = useState<Array<{
-    step: Step;
-    subStepIndex: number;
-    result: 'success' | 'failure';
-  }>>([]);
-  const [isComplete, setIsComplete] = useState(false);
-
-  const handleChoice = (result: 'success' | 'failure') => {
-    if (!activeStep) return;
-
-    const currentSubStep = activeStep.subSteps[activeSubStepIndex];
-    if (!currentSubStep) return;
-
-    // Add current step to path
-    setFlowPath(prev => [...prev, {
-      step: activeStep,
-      subStepIndex: activeSubStepIndex,
-      result
-    }]);
-
-    // Determine next step
-    let nextStepId: string | undefined;
-    if (result === 'success') {
-      if (currentSubStep.successAction === 'next') {
-        if (activeSubStepIndex < activeStep.subSteps.length - 1) {
-          setActiveSubStepIndex(activeSubStepIndex + 1);
-          return;
-        }
-        nextStepId = activeStep.successStepId;
-      } else {
-        nextStepId = currentSubStep.successStepId;
+  const [text, setText] = useState('');
+  const value = parseInputValue(input, text);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (value !== undefined) onSubmit(value);
+      }}
+      className="flex gap-2"
+    >
+      <input
+        type={input.type === 'number' ? 'number' : 'text'}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={input.variable}
+        autoFocus
+        className={`flex-1 min-w-0 px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+          isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-200 text-gray-800'
+        }`}
+      />
+      <button
+        type="submit"
+        disabled={value === undefined}
+        className="px-4 py-2 rounded-lg bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-40"
+      >
+        Continue
+      </button>
+    </form>
+  );
+};
+
+const FlowSimulation: React.FC<FlowSimulationProps> = ({ steps, flowId, flowName, runOptions, onSessionEnd, onClose }) => {
+  const { isDarkMode } = useDarkMode();
+  const [mainLane, setMainLane] = useState<Lane>({ choices: [], times: [] });
+  const [forkLane, setForkLane] = useState<Lane | null>(null);
+  const [operator, setOperator] = useState(loadOperatorName);
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  // Only the main path is recorded; what-if lanes are exploratory
+  const endSession = () => {
+    if (mainLane.choices.length === 0) return;
+    const run = replayRun(steps, mainLane.choices, runOptions);
+    // Automatic branches take no time: they start and end when the answer before them was given
+    let previousAt = startedAt;
+    const entries = run.history.filter(node => !node.isTerminal).map((node): SessionEntry => {
+      const subStep = node.isSubFlowReturn ? undefined : node.step.subSteps[node.subStepIndex];
+      const endedAt = node.choiceIndex !== undefined ? mainLane.times[node.choiceIndex] : previousAt;
+      const entry: SessionEntry = {
+        stepId: node.step.id,
+        stepTitle: node.flowName ? `${node.flowName} › ${node.step.title}` : node.step.title,
+        subStepId: subStep?.id,
+        subStepIndex: node.subStepIndex,
+        subStepContent: node.isSubFlowReturn ? 'Sub-flow ended' : summarizeMarkdown(subStep?.content ?? ''),
+        result: typeof node.choice === 'string' ? node.choice : 'outcomeId' in node.choice ? 'outcome' : 'success',
+        startedAt: previousAt,
+        endedAt
+      };
+      if (typeof node.choice === 'object' && 'outcomeId' in node.choice) {
+        entry.outcomeId = node.choice.outcomeId;
+        entry.outcomeLabel = getChoiceLabel(subStep, node.choice);
       }
+      if (typeof node.choice === 'object' && 'value' in node.choice) entry.value = node.choice.value;
+      if (node.choiceIndex === undefined) entry.isAutomatic = true;
+      previousAt = endedAt;
+      return entry;
+    });
+    const visited = new Set(entries.map(entry => entry.stepId));
+    onSessionEnd({
+      id: generateId(),
+      flowId,
+      flowName,
+      operator: operator.trim(),
+      startedAt,
+      endedAt: Date.now(),
+      outcome: run.isComplete ? 'completed' : 'abandoned',
+      endStepId: run.endStep?.id,
+      endStepTitle: run.endStep?.title,
+      entries,
+      notes: Object.fromEntries(Object.entries(notes).filter(([stepId, note]) => visited.has(stepId) && note.trim()))
+    });
+  };
+
+  const updateOperator = (name: string) => {
+    setOperator(name);
+    saveOperatorName(name);
+  };
+
+  const close = () => {
+    endSession();
+    onClose();
+  };
+
+  const updateLane = (isFork: boolean, update: (lane: Lane) => Lane) => {
+    if (isFork) {
+      setForkLane(prev => prev && update(prev));
     } else {
-      if (currentSubStep.failureAction === 'next') {
-        nextStepId = activeStep.failureStepId;
-      } else {
-        nextStepId = currentSubStep.failureStepId;
-      }
+      setMainLane(prev => update(prev));
     }
+  };
+
+  const handleChoice = (isFork: boolean, choice: Choice) => {
+    updateLane(isFork, lane => ({ ...lane, choices: [...lane.choices, choice], times: [...lane.times, Date.now()] }));
+  };
 
-    if (nextStepId) {
-      const nextStep = steps.find(s => s.id === nextStepId);
-      if (nextStep) {
-        // Check if next step has sub-steps
-        if (nextStep.subSteps.length === 0) {
-          setIsComplete(true);
-          setFlowPath(prev => [...prev, {
-            step: nextStep,
-            subStepIndex: 0,
-            result: 'success'
-          }]);
-        } else {
-          setActiveStep(nextStep);
-          setActiveSubStepIndex(0);
-        }
+  const goBack = (isFork: boolean) => {
+    updateLane(isFork, lane => ({ ...lane, choices: lane.choices.slice(0, -1), times: lane.times.slice(0, -1) }));
+  };
+
+  const restart = () => {
+    endSession();
+    setMainLane({ choices: [], times: [] });
+    setForkLane(null);
+    setStartedAt(Date.now());
+    setNotes({});
+  };
+
+  // Hotkeys answer the main path. The listener is replaced on every render so it always
+  // sees the current path.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+      if (e.key === 'Backspace') {
+        if (mainLane.choices.length === 0) return;
+        e.preventDefault();
+        goBack(false);
+        return;
       }
-    } else {
-      // No next step means we've reached the end
-      setIsComplete(true);
+      const { position, isComplete, isStalled } = replayRun(steps, mainLane.choices, runOptions);
+      if (!position || isComplete || isStalled) return;
+      const choice = getHotkeyChoice(position.step.subSteps[position.subStepIndex], e.key);
+      if (choice === undefined) return;
+      e.preventDefault();
+      handleChoice(false, choice);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Clicking a node in the path returns to the moment that choice was asked
+  const rewindTo = (isFork: boolean, index: number) => {
+    updateLane(isFork, lane => ({ ...lane, choices: lane.choices.slice(0, index), times: lane.times.slice(0, index) }));
+  };
+
+  // Binary answers fork straight into the opposite answer; decisions and inputs fork back
+  // to the question so another answer can be given
+  const forkAt = (lane: Lane, index: number) => {
+    const choice = lane.choices[index];
+    if (typeof choice === 'object') {
+      setForkLane({ choices: lane.choices.slice(0, index), times: lane.times.slice(0, index), forkIndex: index });
+      return;
     }
+    setForkLane({
+      choices: [...lane.choices.slice(0, index), choice === 'success' ? 'failure' : 'success'],
+      times: [...lane.times.slice(0, index), Date.now()],
+      forkIndex: index
+    });
   };
 
-  const renderFlowDiagram = () => {
+  const renderLane = (lane: Lane, isFork: boolean) => {
+    const run = replayRun(steps, lane.choices, runOptions);
+    const { position, history: flowPath, isComplete, isStalled, variables, flowName: activeFlowName } = run;
+    const estimatedMinutes = estimateRunMinutes(run);
+    const activeStep = position?.step;
+    const activeSubStepIndex = position?.subStepIndex ?? 0;
+    const activeSubStep = activeStep?.subSteps[activeSubStepIndex];
+    // A what-if lane rewinds as far as the question it diverged at, never into the shared
+    // path before it. Automatic branches have no choice of their own to rewind to.
+    const canRewind = (index?: number): index is number =>
+      index !== undefined && index < lane.choices.length && (!isFork || index >= (lane.forkIndex ?? 0));
+    const variableNames = Object.keys(variables);
+
     return (
       <div className="relative min-h-[300px] p-8 overflow-x-auto">
+        {forkLane && (
+          <h3 className={`mb-4 text-sm font-semibold ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+            {isFork ? `What-if path (diverges at choice ${(lane.forkIndex ?? 0) + 1})` : 'Main path'}
+          </h3>
+        )}
         <div className="flex items-start gap-4 min-w-max">
           <AnimatePresence mode="popLayout">
             {flowPath.map((node, index) => (
               <motion.div
-                key={`${node.step.id}-${node.subStepIndex}`}
+                key={`${node.step.id}-${node.subStepIndex}-${index}`}
                 initial={{ opacity: 0, x: 50 }}
                 animate={{ opacity: 1, x: 0 }}
                 exit={{ opacity: 0, x: -50 }}
                 className="flex flex-col items-center"
               >
                 {/* Step Node */}
-                <div className={`w-64 p-4 rounded-lg ${
-                  isDarkMode ? 'bg-gray-800' : 'bg-white'
-                } shadow-lg border-2 ${
-                  node.result === 'success' 
-                    ? 'border-green-500' 
-                    : 'border-red-500'
-                }`}>
+                <div
+                  onClick={() => canRewind(node.choiceIndex) && rewindTo(isFork, node.choiceIndex)}
+                  title={canRewind(node.choiceIndex) ? 'Rewind to this choice' : undefined}
+                  className={`w-64 p-4 rounded-lg ${
+                    isDarkMode ? 'bg-gray-800' : 'bg-white'
+                  } shadow-lg border-2 ${choiceStyle(node.choice).border} ${canRewind(node.choiceIndex) ? 'cursor-pointer hover:ring-2 hover:ring-blue-500' : ''} ${
+                    isFork && node.choiceIndex !== undefined && node.choiceIndex === lane.forkIndex ? 'ring-2 ring-yellow-500' : ''
+                  }`}
+                >
                   <div className="flex items-center justify-between mb-2">
                     <span className={`font-medium ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
-                      {node.step.title}
+                      {interpolate(node.step.title, variables)}
                     </span>
-                    {node.result === 'success' 
-                      ? <Check className="w-4 h-4 text-green-500" />
-                      : <XCircle className="w-4 h-4 text-red-500" />
+                    {typeof node.choice === 'object'
+                      ? (
+                        <span className={`text-xs font-medium ${'value' in node.choice ? 'text-purple-500' : 'text-blue-500'}`}>
+                          {getChoiceLabel(node.step.subSteps[node.subStepIndex], node.choice)}
+                        </span>
+                      )
+                      : node.choice === 'success'
+                        ? <Check className="w-4 h-4 text-green-500" />
+                        : <XCircle className="w-4 h-4 text-red-500" />
                     }
                   </div>
-                  {node.step.subSteps[node.subStepIndex] && (
+                  {node.flowName && (
+                    <div className="mb-1 text-xs text-gray-500">in {node.flowName}</div>
+                  )}
+                  {node.isSubFlowReturn && (
                     <div className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-                      Sub-step {node.subStepIndex + 1}: {node.step.subSteps[node.subStepIndex].content}
+                      {node.error
+                        ? <span className="text-red-500">{node.error}</span>
+                        : `Sub-flow "${runOptions.resolveFlow?.(node.step.subFlowId ?? '')?.name ?? ''}" ended in ${node.choice}`}
                     </div>
                   )}
+                  {!node.isSubFlowReturn && node.step.subSteps[node.subStepIndex] && (
+                    <div className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                      Sub-step {node.subStepIndex + 1}: {summarizeMarkdown(interpolate(node.step.subSteps[node.subStepIndex].content, variables))}
+                    </div>
+                  )}
+                  {isBranch(node.step.subSteps[node.subStepIndex]) && !node.isTerminal && !node.isSubFlowReturn && (
+                    <div className="mt-2 text-xs text-gray-500">
+                      Automatic: <code>{node.step.subSteps[node.subStepIndex].condition}</code> is {node.choice === 'success' ? 'true' : 'false'}
+                      {node.error && <div className="text-red-500">{node.error}</div>}
+                    </div>
+                  )}
+                  {!isFork && canRewind(node.choiceIndex) && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        forkAt(lane, node.choiceIndex!);
+                      }}
+                      className={`mt-3 text-xs flex items-center gap-1 ${
+                        isDarkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-800'
+                      }`}
+                    >
+                      <GitBranch className="w-3 h-3" />
+                      {typeof node.choice === 'object'
+                        ? `What if another ${'value' in node.choice ? 'answer' : 'outcome'}?`
+                        : `What if ${node.choice === 'success' ? 'failure' : 'success'}?`}
+                    </button>
+                  )}
                 </div>
 
                 {/* Arrow */}
@@ -137,65 +320,145 @@ const FlowSimulation: React.FC<FlowSimulationProps> = ({ steps, onClose }) => {
                     animate={{ scale: 1 }}
                     className="flex items-center mx-4 h-8"
                   >
-                    <div className={`w-12 h-0.5 ${
-                      node.result === 'success' ? 'bg-green-500' : 'bg-red-500'
-                    }`} />
-                    <div className={`w-0 h-0 border-t-[6px] border-t-transparent 
-                      border-b-[6px] border-b-transparent border-l-[8px] ${
-                      node.result === 'success' 
-                        ? 'border-l-green-500' 
-                        : 'border-l-red-500'
-                    }`} />
+                    <div className={`w-12 h-0.5 ${choiceStyle(node.choice).line}`} />
+                    <div className={`w-0 h-0 border-t-[6px] border-t-transparent
+                      border-b-[6px] border-b-transparent border-l-[8px] ${choiceStyle(node.choice).arrow}`} />
                   </motion.div>
                 )}
               </motion.div>
             ))}
 
             {/* Active Step (only show if not complete) */}
-            {!isComplete && (
+            {!isComplete && activeStep && (
               <motion.div
                 key="active-step"
                 initial={{ opacity: 0, x: 50 }}
                 animate={{ opacity: 1, x: 0 }}
                 className="flex flex-col items-center"
               >
-                <div className={`w-64 p-4 rounded-lg ${
+                <div className={`w-80 p-4 rounded-lg ${
                   isDarkMode ? 'bg-gray-800' : 'bg-white'
                 } shadow-lg border-2 border-blue-500`}>
                   <div className="flex items-center justify-between mb-2">
                     <span className={`font-medium ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
-                      {activeStep.title}
+                      {interpolate(activeStep.title, variables)}
                     </span>
                   </div>
+                  {activeFlowName && (
+                    <div className="mb-1 text-xs text-gray-500">in {activeFlowName}</div>
+                  )}
+                  {(activeStep.severity || activeStep.owner || activeStep.estimatedMinutes !== undefined) && (
+                    <div className="mb-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                      {activeStep.severity && (
+                        <span className={`px-1.5 py-0.5 rounded font-medium capitalize ${SEVERITY_STYLES[activeStep.severity]}`}>
+                          {activeStep.severity}
+                        </span>
+                      )}
+                      {activeStep.owner && (
+                        <span className="flex items-center gap-1"><User className="w-3 h-3" />{activeStep.owner}</span>
+                      )}
+                      {activeStep.estimatedMinutes !== undefined && (
+                        <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{formatMinutes(activeStep.estimatedMinutes)}</span>
+                      )}
+                    </div>
+                  )}
                   <div className={`text-sm mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-                    Sub-step {activeSubStepIndex + 1}: {activeStep.subSteps[activeSubStepIndex]?.content}
+                    <div className="mb-1 text-xs text-gray-500">Sub-step {activeSubStepIndex + 1}</div>
+                    <MarkdownContent content={interpolate(activeSubStep?.content ?? '', variables)} images={activeSubStep?.images} />
                   </div>
-                  
+
                   {/* Choice Buttons */}
-                  <div className="flex justify-center gap-4">
-                    <button
-                      onClick={() => handleChoice('success')}
-                      className="px-4 py-2 rounded-lg bg-green-500 text-white 
-                        hover:bg-green-600 flex items-center gap-2"
-                    >
-                      <Check className="w-4 h-4" />
-                      Success
-                    </button>
-                    <button
-                      onClick={() => handleChoice('failure')}
-                      className="px-4 py-2 rounded-lg bg-red-500 text-white 
-                        hover:bg-red-600 flex items-center gap-2"
-                    >
-                      <XCircle className="w-4 h-4" />
-                      Failure
-                    </button>
-                  </div>
+                  {isStalled ? (
+                    <p className="text-sm text-red-500">
+                      Automatic branches keep looping here without asking anything. Go back or check their conditions.
+                    </p>
+                  ) : isInput(activeSubStep) ? (
+                    !activeSubStep?.input?.variable.trim() ? (
+                      <span className="text-sm text-gray-500">This input has no variable yet.</span>
+                    ) : activeSubStep.input.type === 'choice' ? (
+                      <div className="flex flex-wrap justify-center gap-2">
+                        {getChoices(activeSubStep).map((choice, choiceIndex) => (
+                          <button
+                            key={choiceIndex}
+                            onClick={() => handleChoice(isFork, choice)}
+                            className="px-4 py-2 rounded-lg bg-purple-500 text-white hover:bg-purple-600 flex items-center gap-2"
+                          >
+                            {!isFork && choiceIndex < 9 && (
+                              <kbd className="px-1 rounded bg-white/20 text-xs font-mono">{choiceIndex + 1}</kbd>
+                            )}
+                            {getChoiceLabel(activeSubStep, choice)}
+                          </button>
+                        ))}
+                        {getChoices(activeSubStep).length === 0 && (
+                          <span className="text-sm text-gray-500">This input has no options yet.</span>
+                        )}
+                      </div>
+                    ) : (
+                      <InputAnswer
+                        key={`${isFork}-${lane.choices.length}`}
+                        input={activeSubStep.input}
+                        onSubmit={(value) => handleChoice(isFork, { value })}
+                      />
+                    )
+                  ) : isDecision(activeSubStep) ? (
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {getChoices(activeSubStep!).map((choice, choiceIndex) => (
+                        <button
+                          key={typeof choice === 'object' && 'outcomeId' in choice ? choice.outcomeId : String(choice)}
+                          onClick={() => handleChoice(isFork, choice)}
+                          className="px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 flex items-center gap-2"
+                        >
+                          {!isFork && choiceIndex < 9 && (
+                            <kbd className="px-1 rounded bg-white/20 text-xs font-mono">{choiceIndex + 1}</kbd>
+                          )}
+                          {getChoiceLabel(activeSubStep, choice)}
+                        </button>
+                      ))}
+                      {getChoices(activeSubStep!).length === 0 && (
+                        <span className="text-sm text-gray-500">This decision has no outcomes yet.</span>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex justify-center gap-4">
+                      <button
+                        onClick={() => handleChoice(isFork, 'success')}
+                        className="px-4 py-2 rounded-lg bg-green-500 text-white
+                          hover:bg-green-600 flex items-center gap-2"
+                      >
+                        <Check className="w-4 h-4" />
+                        Success
+                        {!isFork && <kbd className="px-1 rounded bg-white/20 text-xs font-mono">S</kbd>}
+                      </button>
+                      <button
+                        onClick={() => handleChoice(isFork, 'failure')}
+                        className="px-4 py-2 rounded-lg bg-red-500 text-white
+                          hover:bg-red-600 flex items-center gap-2"
+                      >
+                        <XCircle className="w-4 h-4" />
+                        Failure
+                        {!isFork && <kbd className="px-1 rounded bg-white/20 text-xs font-mono">F</kbd>}
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Step Notes */}
+                  {!isFork && (
+                    <textarea
+                      value={notes[activeStep.id] ?? ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [activeStep.id]: e.target.value }))}
+                      placeholder="Notes for this step (optional)"
+                      rows={2}
+                      className={`mt-4 w-full px-3 py-2 rounded-lg border text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-200 text-gray-800'
+                      }`}
+                    />
+                  )}
                 </div>
               </motion.div>
             )}
 
             {/* Completion Message */}
-            {isComplete && (
+            {(isComplete || !activeStep) && (
               <motion.div
                 initial={{ opacity: 0, scale: 0.8 }}
                 animate={{ opacity: 1, scale: 1 }}
@@ -203,14 +466,65 @@ const FlowSimulation: React.FC<FlowSimulationProps> = ({ steps, onClose }) => {
                   isDarkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-800'
                 } shadow-lg border-2 border-blue-500`}
               >
-                <h3 className="text-lg font-medium mb-2">Flow Complete!</h3>
+                <h3 className="text-lg font-medium mb-2">
+                  {isComplete ? 'Flow Complete!' : 'Nothing to simulate'}
+                </h3>
                 <p className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-                  The simulation has reached its end.
+                  {isComplete ? 'The simulation has reached its end.' : 'Add a step to the flow first.'}
                 </p>
               </motion.div>
             )}
           </AnimatePresence>
         </div>
+
+        {/* Estimated Time */}
+        {estimatedMinutes > 0 && (
+          <div className={`mt-6 flex items-center gap-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+            <Clock className="w-4 h-4" />
+            Estimated time for this path so far: {formatMinutes(estimatedMinutes)}
+          </div>
+        )}
+
+        {/* Variables */}
+        {variableNames.length > 0 && (
+          <div className={`mt-6 flex flex-wrap gap-2 text-xs ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+            {variableNames.map(name => (
+              <span key={name} className={`px-2 py-1 rounded ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+                <span className="font-mono">{name}</span> = {String(variables[name])}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Lane Controls */}
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={() => goBack(isFork)}
+            disabled={lane.choices.length === 0 || (isFork && lane.choices.length <= (lane.forkIndex ?? 0))}
+            className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm disabled:opacity-40 ${
+              isDarkMode ? 'bg-gray-800 hover:bg-gray-700 text-white' : 'bg-white hover:bg-gray-100 text-gray-700'
+            }`}
+          >
+            <Undo2 className="w-4 h-4" />
+            Back
+          </button>
+          {isFork && (
+            <button
+              onClick={() => setForkLane(null)}
+              className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm ${
+                isDarkMode ? 'bg-gray-800 hover:bg-gray-700 text-white' : 'bg-white hover:bg-gray-100 text-gray-700'
+              }`}
+            >
+              <X className="w-4 h-4" />
+              Close comparison
+            </button>
+          )}
+          {!isFork && (
+            <span className="ml-auto self-center text-xs text-gray-500">
+              Keys: S / F answer a check, 1–9 pick an option, Backspace goes back
+            </span>
+          )}
+        </div>
       </div>
     );
   };
@@ -221,17 +535,42 @@ const FlowSimulation: React.FC<FlowSimulationProps> = ({ steps, onClose }) => {
         <h2 className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-800'}`}>
           Flow Simulation
         </h2>
-        <button
-          onClick={onClose}
-          className="p-2 rounded-lg bg-red-500 text-white hover:bg-red-600"
-        >
-          <X className="w-5 h-5" />
-        </button>
+        <div className="flex items-center gap-3">
+          <input
+            type="text"
+            value={operator}
+            onChange={(e) => updateOperator(e.target.value)}
+            placeholder="Operator name"
+            className={`px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              isDarkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-800'
+            }`}
+          />
+          <button
+            onClick={restart}
+            className={`px-4 py-2 rounded-lg flex items-center gap-2 ${
+              isDarkMode ? 'bg-gray-800 hover:bg-gray-700 text-white' : 'bg-white hover:bg-gray-100 text-gray-700'
+            }`}
+          >
+            <RotateCcw className="w-4 h-4" />
+            Restart
+          </button>
+          <button
+            onClick={close}
+            className="p-2 rounded-lg bg-red-500 text-white hover:bg-red-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
       </div>
 
-      {renderFlowDiagram()}
+      {renderLane(mainLane, false)}
+      {forkLane && (
+        <div className={`border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          {renderLane(forkLane, true)}
+        </div>
+      )}
     </div>
   );
 };
 
-export default FlowSimulation; 
\ No newline at end of file
+export default FlowSimulation;
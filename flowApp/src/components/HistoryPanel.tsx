@@ -0,0 +1,59 @@
+import { History, X } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { HistoryEntry } from '../hooks/useHistory';
+
+interface HistoryPanelProps<T> {
+  entries: HistoryEntry<T>[];
+  currentIndex: number;
+  onJumpTo: (index: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel = <T,>({ entries, currentIndex, onJumpTo, onClose }: HistoryPanelProps<T>) => {
+  const { isDarkMode } = useDarkMode();
+
+  return (
+    <div className={`fixed top-20 right-4 z-40 w-80 rounded-xl shadow-lg border ${
+      isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+    }`}>
+      <div className={`px-4 py-3 flex items-center justify-between border-b ${
+        isDarkMode ? 'border-gray-700' : 'border-gray-200'
+      }`}>
+        <span className="flex items-center gap-2 font-semibold">
+          <History className="w-4 h-4" />
+          History
+        </span>
+        <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-500/20">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto py-1">
+        {/* Newest first, entries after the current one can still be redone */}
+        {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+          <button
+            key={`${index}-${entry.timestamp}`}
+            onClick={() => onJumpTo(index)}
+            className={`w-full px-4 py-2 flex items-center justify-between text-sm text-left ${
+              index === currentIndex
+                ? 'bg-blue-600 text-white'
+                : index > currentIndex
+                  ? 'text-gray-500 hover:bg-gray-500/10'
+                  : 'hover:bg-gray-500/10'
+            }`}
+          >
+            <span className={index > currentIndex ? 'line-through' : ''}>{entry.label}</span>
+            <span className={`text-xs ${index === currentIndex ? 'text-blue-100' : 'text-gray-500'}`}>
+              {formatTime(entry.timestamp)}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, Upload, X, GitMerge } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { Step, StepResult } from '../types/flow';
+import { FlowFileParseResult } from '../utils/flowFile';
+import { MergeOptions } from '../utils/merge';
+
+interface ImportPreviewDialogProps {
+  fileName: string;
+  result: FlowFileParseResult;
+  currentSteps: Step[];
+  currentFlowName: string;
+  onConfirm: (steps: Step[]) => void;
+  onMerge: (steps: Step[], options: MergeOptions) => void;
+  onCancel: () => void;
+}
+
+type ImportMode = 'replace' | 'merge';
+
+const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({
+  fileName,
+  result,
+  currentSteps,
+  currentFlowName,
+  onConfirm,
+  onMerge,
+  onCancel
+}) => {
+  const { isDarkMode } = useDarkMode();
+  const incomingSteps = result.ok ? result.file.steps : [];
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const [chosenIds, setChosenIds] = useState<string[]>(() => incomingSteps.map(step => step.id));
+  const [entryStepId, setEntryStepId] = useState(incomingSteps[0]?.id ?? '');
+  const [wireFromStepId, setWireFromStepId] = useState('');
+  const [wireKind, setWireKind] = useState<StepResult>('success');
+
+  // Falls back to the first chosen step when the picked entry is deselected
+  const entryId = chosenIds.includes(entryStepId)
+    ? entryStepId
+    : incomingSteps.find(step => chosenIds.includes(step.id))?.id;
+
+  const toggleChosen = (stepId: string) => {
+    setChosenIds(prev => prev.includes(stepId) ? prev.filter(id => id !== stepId) : [...prev, stepId]);
+  };
+
+  const selectClassName = `px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-200 text-gray-800'
+  }`;
+
+  const confirm = () => {
+    if (mode === 'replace') {
+      onConfirm(incomingSteps);
+      return;
+    }
+    onMerge(incomingSteps, {
+      stepIds: chosenIds,
+      entry: wireFromStepId && entryId
+        ? { fromStepId: wireFromStepId, kind: wireKind, toIncomingStepId: entryId }
+        : undefined
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-6">
+      <div className={`w-full max-w-2xl max-h-full flex flex-col rounded-xl shadow-lg ${
+        isDarkMode ? 'bg-gray-800 text-gray-100' : 'bg-white text-gray-800'
+      }`}>
+        <div className={`px-6 py-4 flex items-center justify-between border-b ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <h2 className="text-lg font-semibold">Import {fileName}</h2>
+          <button onClick={onCancel} className="p-1 rounded-md hover:bg-gray-500/20">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto space-y-4">
+          {!result.ok ? (
+            <div>
+              <p className="mb-2 flex items-center gap-2 font-medium text-red-500">
+                <AlertCircle className="w-4 h-4" />
+                This file cannot be imported:
+              </p>
+              <ul className="list-disc ml-6 space-y-1 text-sm">
+                {result.errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          ) : (
+            <>
+              {/* Import Mode */}
+              <div className="flex gap-2">
+                {([
+                  { id: 'replace', label: 'Replace current flow', icon: Upload },
+                  { id: 'merge', label: 'Merge into current flow', icon: GitMerge }
+                ] as const).map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setMode(option.id)}
+                    className={`px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium ${
+                      mode === option.id
+                        ? 'bg-blue-600 text-white'
+                        : isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+                    }`}
+                  >
+                    <option.icon className="w-4 h-4" />
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className={`p-3 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                  <div className="text-gray-500 mb-1">
+                    {mode === 'replace' ? 'Current flow will be replaced' : 'Current flow will be kept'}
+                  </div>
+                  <div className="font-medium">{currentFlowName}</div>
+                  <div>{currentSteps.length} steps</div>
+                </div>
+                <div className={`p-3 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+                  <div className="text-gray-500 mb-1">
+                    Incoming (version {result.file.version}
+                    {result.migratedFrom && `, converted from ${result.migratedFrom}`})
+                  </div>
+                  <div className="font-medium">{result.file.name ?? fileName}</div>
+                  <div>{result.file.steps.length} steps</div>
+                </div>
+              </div>
+
+              {mode === 'merge' && (
+                <div className="space-y-3 text-sm">
+                  <div>
+                    <div className="font-medium mb-1">Steps to bring in</div>
+                    <div className="space-y-1">
+                      {incomingSteps.map(step => (
+                        <label key={step.id} className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={chosenIds.includes(step.id)}
+                            onChange={() => toggleChosen(step.id)}
+                          />
+                          {step.title || <span className="text-gray-500">Untitled</span>}
+                          <span className="text-gray-500">— {step.subSteps.length} sub-steps</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Entry Point Wiring */}
+                  <div>
+                    <div className="font-medium mb-1">Wire the entry point</div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <select
+                        value={wireFromStepId}
+                        onChange={(e) => setWireFromStepId(e.target.value)}
+                        className={selectClassName}
+                      >
+                        <option value="">Don't connect</option>
+                        {currentSteps.map(step => (
+                          <option key={step.id} value={step.id}>{step.title}</option>
+                        ))}
+                      </select>
+                      <span>on</span>
+                      <select
+                        value={wireKind}
+                        onChange={(e) => setWireKind(e.target.value as StepResult)}
+                        disabled={!wireFromStepId}
+                        className={selectClassName}
+                      >
+                        <option value="success">success</option>
+                        <option value="failure">failure</option>
+                      </select>
+                      <span>goes to</span>
+                      <select
+                        value={entryId ?? ''}
+                        onChange={(e) => setEntryStepId(e.target.value)}
+                        disabled={!wireFromStepId}
+                        className={selectClassName}
+                      >
+                        {incomingSteps
+                          .filter(step => chosenIds.includes(step.id))
+                          .map(step => (
+                            <option key={step.id} value={step.id}>{step.title}</option>
+                          ))
+                        }
+                      </select>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {mode === 'replace' && result.file.steps.length > 0 && (
+                <div>
+                  <div className="text-sm font-medium mb-1">Incoming steps</div>
+                  <ol className="list-decimal ml-6 text-sm space-y-0.5">
+                    {result.file.steps.map(step => (
+                      <li key={step.id}>
+                        {step.title || <span className="text-gray-500">Untitled</span>}
+                        <span className="text-gray-500"> — {step.subSteps.length} sub-steps</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {result.warnings.length > 0 && (
+                <div>
+                  <p className="mb-1 flex items-center gap-2 text-sm font-medium text-yellow-500">
+                    <AlertTriangle className="w-4 h-4" />
+                    Warnings
+                  </p>
+                  <ul className="list-disc ml-6 space-y-1 text-sm">
+                    {result.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className={`px-6 py-4 flex justify-end gap-3 border-t ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <button
+            onClick={onCancel}
+            className={`px-4 py-2 rounded-lg ${
+              isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+            }`}
+          >
+            {result.ok ? 'Cancel' : 'Close'}
+          </button>
+          {result.ok && (
+            <button
+              onClick={confirm}
+              disabled={mode === 'merge' && chosenIds.length === 0}
+              className="px-4 py-2 rounded-lg flex items-center gap-2 bg-yellow-600 text-white hover:bg-yellow-700 disabled:opacity-50"
+            >
+              {mode === 'replace' ? <Upload className="w-4 h-4" /> : <GitMerge className="w-4 h-4" />}
+              {mode === 'replace' ? 'Replace flow' : `Merge ${chosenIds.length} steps`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewDialog;
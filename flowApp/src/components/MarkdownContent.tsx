@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { IMAGE_REFERENCE_PREFIX, InlineNode, parseMarkdown } from '../utils/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  // Images stored on the sub-step, for image: references
+  images?: Record<string, string>;
+  className?: string;
+}
+
+const CodeBlock: React.FC<{ code: string; language?: string }> = ({ code, language }) => {
+  const { isDarkMode } = useDarkMode();
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      alert('Could not copy to the clipboard');
+    }
+  };
+
+  return (
+    <div className={`relative my-2 rounded-lg ${isDarkMode ? 'bg-gray-900' : 'bg-gray-100'}`}>
+      <div className="flex items-center justify-between px-3 pt-1.5 text-xs text-gray-500">
+        <span>{language}</span>
+        <button onClick={copy} className="flex items-center gap-1 hover:text-blue-500" title="Copy to clipboard">
+          {copied ? <Check className="w-3 h-3 text-green-500" /> : <Copy className="w-3 h-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="px-3 pb-2 pt-1 overflow-x-auto text-xs font-mono whitespace-pre">{code}</pre>
+    </div>
+  );
+};
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, images, className = '' }) => {
+  const { isDarkMode } = useDarkMode();
+
+  const renderInline = (nodes: InlineNode[]): React.ReactNode[] => nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return (
+          <code key={index} className={`px-1 rounded font-mono text-[0.9em] ${isDarkMode ? 'bg-gray-900' : 'bg-gray-100'}`}>
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="text-blue-500 underline hover:text-blue-600"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'image': {
+        const src = node.src.startsWith(IMAGE_REFERENCE_PREFIX)
+          ? images?.[node.src.slice(IMAGE_REFERENCE_PREFIX.length)]
+          : node.src;
+        if (!src) return <span key={index} className="italic text-gray-500">[missing image{node.alt ? `: ${node.alt}` : ''}]</span>;
+        return <img key={index} src={src} alt={node.alt} className="block max-w-full max-h-64 my-2 rounded-lg" />;
+      }
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      {parseMarkdown(content).map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const size = block.level === 1 ? 'text-lg' : block.level === 2 ? 'text-base' : 'text-sm';
+            return <div key={index} className={`${size} font-semibold`}>{renderInline(block.children)}</div>;
+          }
+          case 'paragraph':
+            return <p key={index}>{renderInline(block.children)}</p>;
+          case 'quote':
+            return (
+              <blockquote key={index} className={`pl-3 border-l-4 ${isDarkMode ? 'border-gray-600' : 'border-gray-300'}`}>
+                {renderInline(block.children)}
+              </blockquote>
+            );
+          case 'list': {
+            const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+            return block.ordered
+              ? <ol key={index} className="pl-5 list-decimal">{items}</ol>
+              : <ul key={index} className="pl-5 list-disc">{items}</ul>;
+          }
+          case 'code':
+            return <CodeBlock key={index} code={block.code} language={block.language} />;
+        }
+      })}
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,119 @@
+import React, { useRef, useState } from 'react';
+import { Eye, ImagePlus, Pencil } from 'lucide-react';
+import MarkdownContent from './MarkdownContent';
+import { useDarkMode } from '../context/DarkModeContext';
+import { generateId } from '../utils/id';
+import { IMAGE_REFERENCE_PREFIX } from '../utils/markdown';
+import { getRemainingStorage } from '../utils/workspace';
+
+interface MarkdownEditorProps {
+  value: string;
+  images?: Record<string, string>;
+  placeholder?: string;
+  onChange: (content: string) => void;
+  // Called with the new image and the content that now references it
+  onAddImage: (imageId: string, dataUrl: string, content: string) => void;
+}
+
+// Images are stored inside the flow, which lives in localStorage, so they are kept small
+const MAX_IMAGE_BYTES = 1024 * 1024;
+const MAX_ROWS = 12;
+
+const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ value, images, placeholder, onChange, onAddImage }) => {
+  const { isDarkMode } = useDarkMode();
+  const [isPreview, setIsPreview] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const addImage = (file: File) => {
+    if (!file.type.startsWith('image/')) return;
+    if (file.size > MAX_IMAGE_BYTES) {
+      alert('Images must be smaller than 1 MB');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const dataUrl = e.target?.result as string;
+      // The flow is saved with the image in it, so an image that does not fit would be lost
+      if (dataUrl.length > getRemainingStorage()) {
+        alert('There is not enough browser storage left for this image. Remove other images or flows first.');
+        return;
+      }
+      const imageId = generateId();
+      const alt = file.name.replace(/\.[^.]+$/, '').replace(/[[\]]/g, '') || 'image';
+      const cursor = textareaRef.current?.selectionEnd ?? value.length;
+      const before = value.slice(0, cursor);
+      const separator = before && !before.endsWith('\n') ? '\n' : '';
+      const reference = `${separator}![${alt}](${IMAGE_REFERENCE_PREFIX}${imageId})\n`;
+      onAddImage(imageId, dataUrl, before + reference + value.slice(cursor));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const file = Array.from(e.clipboardData.files).find(f => f.type.startsWith('image/'));
+    if (!file) return;
+    e.preventDefault();
+    addImage(file);
+  };
+
+  const tabClass = (active: boolean) => `px-2 py-1 rounded-md flex items-center gap-1 text-xs ${
+    active
+      ? isDarkMode ? 'bg-gray-600 text-white' : 'bg-gray-200 text-gray-800'
+      : 'text-gray-500 hover:text-blue-500'
+  }`;
+
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="mb-1 flex items-center gap-1">
+        <button onClick={() => setIsPreview(false)} className={tabClass(!isPreview)}>
+          <Pencil className="w-3 h-3" />
+          Write
+        </button>
+        <button onClick={() => setIsPreview(true)} className={tabClass(isPreview)}>
+          <Eye className="w-3 h-3" />
+          Preview
+        </button>
+        <label className={`${tabClass(false)} ml-auto cursor-pointer`} title="Add an image">
+          <ImagePlus className="w-3 h-3" />
+          Image
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/gif,image/webp"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) addImage(file);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </label>
+      </div>
+      {isPreview ? (
+        <div className={`min-h-[2.5rem] px-3 py-2 rounded-lg border text-sm ${
+          isDarkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-200 text-gray-800'
+        }`}>
+          {value.trim()
+            ? <MarkdownContent content={value} images={images} />
+            : <span className="text-gray-400">Nothing to preview</span>}
+        </div>
+      ) : (
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onPaste={handlePaste}
+          placeholder={placeholder}
+          rows={Math.min(MAX_ROWS, Math.max(2, value.split('\n').length))}
+          className={`w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+            isDarkMode
+              ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+              : 'bg-white border-gray-200 text-gray-800 placeholder-gray-400'
+          }`}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MarkdownEditor;
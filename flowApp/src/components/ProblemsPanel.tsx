@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { AlertTriangle, AlertCircle, CheckCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { FlowIssue } from '../utils/validation';
+
+interface ProblemsPanelProps {
+  issues: FlowIssue[];
+  onSelectIssue: (issue: FlowIssue) => void;
+}
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ issues, onSelectIssue }) => {
+  const { isDarkMode } = useDarkMode();
+  const [isOpen, setIsOpen] = useState(true);
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <div className={`mt-4 rounded-xl shadow-sm ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-2 flex items-center justify-between text-sm font-semibold"
+      >
+        <span className="flex items-center gap-3">
+          Problems
+          <span className="flex items-center gap-1 text-red-500">
+            <AlertCircle className="w-4 h-4" />
+            {errorCount}
+          </span>
+          <span className="flex items-center gap-1 text-yellow-500">
+            <AlertTriangle className="w-4 h-4" />
+            {warningCount}
+          </span>
+        </span>
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className={`max-h-48 overflow-y-auto border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          {issues.length === 0 ? (
+            <div className="px-4 py-3 flex items-center gap-2 text-sm text-green-500">
+              <CheckCircle className="w-4 h-4" />
+              No problems detected
+            </div>
+          ) : (
+            issues.map(issue => (
+              <button
+                key={issue.id}
+                onClick={() => onSelectIssue(issue)}
+                disabled={!issue.stepId}
+                className={`w-full px-4 py-2 flex items-start gap-2 text-left text-sm ${
+                  isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'
+                } disabled:cursor-default`}
+              >
+                {issue.severity === 'error'
+                  ? <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-red-500" />
+                  : <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-yellow-500" />
+                }
+                <span>{issue.message}</span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProblemsPanel;
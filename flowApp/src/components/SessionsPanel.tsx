@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Check, ClipboardList, Download, GitFork, Trash2, X, XCircle } from 'lucide-react';
+import FlowAnalyticsView from './FlowAnalyticsView';
+import { useDarkMode } from '../context/DarkModeContext';
+import { Step } from '../types/flow';
+import { SimulationSession } from '../types/session';
+import { FlowAnalytics } from '../utils/analytics';
+import { downloadFile, fileSlug } from '../utils/download';
+import { REPORT_FORMATS, ReportFormat, formatDuration, renderSessionReport } from '../utils/sessionReport';
+
+interface SessionsPanelProps {
+  sessions: SimulationSession[];
+  steps: Step[];
+  analytics: FlowAnalytics;
+  flowName: string;
+  onDelete: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+const SessionsPanel: React.FC<SessionsPanelProps> = ({ sessions, steps, analytics, flowName, onDelete, onClose }) => {
+  const { isDarkMode } = useDarkMode();
+  const [tab, setTab] = useState<'runs' | 'analytics'>('runs');
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+
+  const selected = sessions.find(session => session.id === selectedSessionId);
+  const newestFirst = [...sessions].sort((a, b) => b.startedAt - a.startedAt);
+
+  const exportReport = (session: SimulationSession, format: ReportFormat) => {
+    const option = REPORT_FORMATS.find(f => f.id === format)!;
+    const date = new Date(session.startedAt).toISOString().split('T')[0];
+    downloadFile(
+      renderSessionReport(session, format),
+      `${fileSlug(session.flowName)}-run-${date}.${option.extension}`,
+      option.mimeType
+    );
+  };
+
+  const deleteSession = (session: SimulationSession) => {
+    if (!window.confirm('Delete this recorded run?')) return;
+    onDelete(session.id);
+    setSelectedSessionId(null);
+  };
+
+  const outcomeBadge = (session: SimulationSession) => (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+      session.outcome === 'completed'
+        ? isDarkMode ? 'bg-green-900 text-green-300' : 'bg-green-100 text-green-700'
+        : isDarkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'
+    }`}>
+      {session.outcome === 'completed' ? 'Completed' : 'Abandoned'}
+    </span>
+  );
+
+  const tabs = (
+    <div className="px-6 pt-4 pb-2 flex gap-2">
+      {([
+        { id: 'runs', label: 'Runs' },
+        { id: 'analytics', label: 'Analytics' }
+      ] as const).map(option => (
+        <button
+          key={option.id}
+          onClick={() => setTab(option.id)}
+          className={`px-4 py-2 rounded-lg text-sm font-medium ${
+            tab === option.id
+              ? 'bg-blue-600 text-white'
+              : isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-6">
+      <div className={`w-full max-w-3xl max-h-full flex flex-col rounded-xl shadow-lg ${
+        isDarkMode ? 'bg-gray-800 text-gray-100' : 'bg-white text-gray-800'
+      }`}>
+        <div className={`px-6 py-4 flex items-center justify-between border-b ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            {selected ? (
+              <button onClick={() => setSelectedSessionId(null)} className="p-1 rounded-md hover:bg-gray-500/20">
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+            ) : (
+              <ClipboardList className="w-5 h-5" />
+            )}
+            {selected ? `Run of ${selected.flowName}` : `Recorded runs of ${flowName}`}
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-500/20">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {selected ? (
+          <>
+            <div className="px-6 py-4 overflow-y-auto min-h-0">
+              {/* Run Summary */}
+              <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm mb-4">
+                <span className="text-gray-500">Operator</span>
+                <span>{selected.operator || 'Unknown'}</span>
+                <span className="text-gray-500">Started</span>
+                <span>{new Date(selected.startedAt).toLocaleString()}</span>
+                <span className="text-gray-500">Duration</span>
+                <span>{formatDuration(selected.endedAt - selected.startedAt)}</span>
+                <span className="text-gray-500">Result</span>
+                <span className="flex items-center gap-2">
+                  {outcomeBadge(selected)}
+                  {selected.endStepTitle}
+                </span>
+              </div>
+
+              {/* Visited Sub-steps */}
+              <div className={`rounded-lg border divide-y ${
+                isDarkMode ? 'border-gray-700 divide-gray-700' : 'border-gray-200 divide-gray-200'
+              }`}>
+                {selected.entries.map((entry, index) => {
+                  const next = selected.entries[index + 1];
+                  const note = (!next || next.stepId !== entry.stepId) ? selected.notes[entry.stepId] : undefined;
+                  return (
+                    <div key={index} className="px-4 py-2 text-sm">
+                      <div className="flex items-center gap-3">
+                        {entry.result === 'success'
+                          ? <Check className="w-4 h-4 shrink-0 text-green-500" />
+                          : entry.result === 'failure'
+                            ? <XCircle className="w-4 h-4 shrink-0 text-red-500" />
+                            : <GitFork className="w-4 h-4 shrink-0 text-blue-500" />
+                        }
+                        <span className="font-medium">{entry.stepTitle}</span>
+                        <span className={`flex-1 truncate ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                          {entry.subStepIndex + 1}. {entry.subStepContent}
+                        </span>
+                        {entry.outcomeLabel && (
+                          <span className="text-xs font-medium text-blue-500">{entry.outcomeLabel}</span>
+                        )}
+                        {entry.value !== undefined && (
+                          <span className="text-xs font-medium text-purple-500">{String(entry.value)}</span>
+                        )}
+                        {entry.isAutomatic && <span className="text-xs text-gray-500">automatic</span>}
+                        <span className="text-xs text-gray-500">{formatDuration(entry.endedAt - entry.startedAt)}</span>
+                      </div>
+                      {note && (
+                        <p className={`mt-1 ml-7 italic ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{note}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className={`px-6 py-4 flex items-center gap-3 border-t ${
+              isDarkMode ? 'border-gray-700' : 'border-gray-200'
+            }`}>
+              <button
+                onClick={() => deleteSession(selected)}
+                className="px-4 py-2 rounded-lg flex items-center gap-2 text-red-500 hover:bg-red-500/10"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+              <div className="flex-1" />
+              {REPORT_FORMATS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => exportReport(selected, option.id)}
+                  className={`px-4 py-2 rounded-lg flex items-center gap-2 ${
+                    isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+                  }`}
+                >
+                  <Download className="w-4 h-4" />
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </>
+        ) : tab === 'analytics' ? (
+          <div className="overflow-y-auto min-h-0">
+            {tabs}
+            <FlowAnalyticsView steps={steps} analytics={analytics} />
+          </div>
+        ) : (
+          <div className="py-1 overflow-y-auto min-h-0">
+            {tabs}
+            {newestFirst.length === 0 && (
+              <p className="px-6 py-8 text-sm text-center text-gray-500">
+                No runs recorded yet. Runs are saved when a simulation is closed or restarted.
+              </p>
+            )}
+            {newestFirst.map(session => (
+              <button
+                key={session.id}
+                onClick={() => setSelectedSessionId(session.id)}
+                className="w-full px-6 py-3 flex items-center gap-4 text-sm text-left hover:bg-gray-500/10"
+              >
+                <span className="w-44">{new Date(session.startedAt).toLocaleString()}</span>
+                <span className="flex-1 truncate">{session.operator || 'Unknown operator'}</span>
+                <span className="text-gray-500">
+                  {session.entries.length} sub-step{session.entries.length === 1 ? '' : 's'}
+                </span>
+                <span className="w-16 text-right text-gray-500">{formatDuration(session.endedAt - session.startedAt)}</span>
+                {outcomeBadge(session)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionsPanel;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { ChevronDown, Clock, Tag, User, X } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { Step, StepSeverity } from '../types/flow';
+import { SEVERITIES, SEVERITY_STYLES, StepMetadata, addTag, formatMinutes } from '../utils/stepMetadata';
+
+interface StepMetadataEditorProps {
+  step: Step;
+  // Values used elsewhere in the flow, offered as suggestions
+  knownTags: string[];
+  knownOwners: string[];
+  onChange: (changes: StepMetadata, label: string, groupKey?: string) => void;
+}
+
+const StepMetadataEditor: React.FC<StepMetadataEditorProps> = ({ step, knownTags, knownOwners, onChange }) => {
+  const { isDarkMode } = useDarkMode();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newTag, setNewTag] = useState('');
+  const tags = step.tags ?? [];
+
+  const inputClass = `px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-200 text-gray-800 placeholder-gray-400'
+  }`;
+  const labelClass = `text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+
+  const commitTag = () => {
+    const next = addTag(tags, newTag);
+    if (next !== tags) onChange({ tags: next }, 'Add tag');
+    setNewTag('');
+  };
+
+  const removeTag = (tag: string) => {
+    const next = tags.filter(existing => existing !== tag);
+    onChange({ tags: next.length > 0 ? next : undefined }, 'Remove tag');
+  };
+
+  return (
+    <div className={`mb-6 rounded-lg border ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-full px-4 py-2 flex items-center gap-3 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}
+      >
+        <span className="font-medium">Metadata</span>
+        {/* Summary of what is set, so the section can stay collapsed */}
+        {!isOpen && (
+          <span className="flex-1 min-w-0 flex items-center gap-2 text-xs text-gray-500 truncate">
+            {step.severity && (
+              <span className={`px-1.5 py-0.5 rounded font-medium ${SEVERITY_STYLES[step.severity]}`}>
+                {SEVERITIES.find(severity => severity.id === step.severity)?.label}
+              </span>
+            )}
+            {step.owner && (
+              <span className="flex items-center gap-1"><User className="w-3 h-3" />{step.owner}</span>
+            )}
+            {step.estimatedMinutes !== undefined && (
+              <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{formatMinutes(step.estimatedMinutes)}</span>
+            )}
+            {tags.length > 0 && (
+              <span className="flex items-center gap-1 truncate"><Tag className="w-3 h-3" />{tags.join(', ')}</span>
+            )}
+          </span>
+        )}
+        <ChevronDown className={`w-4 h-4 ml-auto transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label className={labelClass}>Owner</label>
+              <input
+                type="text"
+                list="step-owners"
+                value={step.owner ?? ''}
+                onChange={(e) => onChange({ owner: e.target.value || undefined }, 'Change owner', `owner-${step.id}`)}
+                placeholder="Person or role"
+                className={`w-full ${inputClass}`}
+              />
+              <datalist id="step-owners">
+                {knownOwners.map(owner => <option key={owner} value={owner} />)}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Estimated minutes</label>
+              <input
+                type="number"
+                min={0}
+                value={step.estimatedMinutes ?? ''}
+                onChange={(e) => {
+                  const minutes = Number(e.target.value);
+                  onChange(
+                    { estimatedMinutes: e.target.value !== '' && minutes >= 0 ? minutes : undefined },
+                    'Change estimate',
+                    `estimate-${step.id}`
+                  );
+                }}
+                className={`w-full ${inputClass}`}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>Severity</label>
+              <select
+                value={step.severity ?? ''}
+                onChange={(e) => onChange({ severity: (e.target.value || undefined) as StepSeverity | undefined }, 'Change severity')}
+                className={`w-full ${inputClass}`}
+              >
+                <option value="">None</option>
+                {SEVERITIES.map(severity => (
+                  <option key={severity.id} value={severity.id}>{severity.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Tags */}
+          <div className="space-y-2">
+            <label className={labelClass}>Tags</label>
+            <div className="flex flex-wrap items-center gap-2">
+              {tags.map(tag => (
+                <span
+                  key={tag}
+                  className={`px-2 py-1 rounded-md flex items-center gap-1 text-xs ${
+                    isDarkMode ? 'bg-gray-700 text-gray-200' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {tag}
+                  <button onClick={() => removeTag(tag)} className="text-gray-400 hover:text-red-500" title="Remove tag">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <input
+                type="text"
+                list="step-tags"
+                value={newTag}
+                onChange={(e) => setNewTag(e.target.value.replace(',', ''))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ',') {
+                    e.preventDefault();
+                    commitTag();
+                  } else if (e.key === 'Backspace' && !newTag && tags.length > 0) {
+                    removeTag(tags[tags.length - 1]);
+                  }
+                }}
+                onBlur={commitTag}
+                placeholder="Add tag"
+                className={`w-40 ${inputClass}`}
+              />
+              <datalist id="step-tags">
+                {knownTags.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+              </datalist>
+            </div>
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <label className={labelClass}>Internal notes</label>
+            <textarea
+              value={step.notes ?? ''}
+              onChange={(e) => onChange({ notes: e.target.value || undefined }, 'Edit notes', `notes-${step.id}`)}
+              rows={3}
+              placeholder="Only shown in the editor"
+              className={`w-full ${inputClass}`}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StepMetadataEditor;
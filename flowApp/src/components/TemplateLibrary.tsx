@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { LayoutTemplate, Plus, Trash2, X } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { StepTemplate } from '../types/template';
+import { fillParameters, getTemplateParameters } from '../utils/templates';
+
+interface TemplateLibraryProps {
+  templates: StepTemplate[];
+  // Number of steps "Save as template" would store
+  selectionCount: number;
+  onInsert: (template: StepTemplate, values: Record<string, string>) => void;
+  // Returns the new template's id
+  onSaveSelection: (name: string, description: string) => string;
+  onDelete: (templateId: string) => void;
+  onClose: () => void;
+}
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({
+  templates,
+  selectionCount,
+  onInsert,
+  onSaveSelection,
+  onDelete,
+  onClose
+}) => {
+  const { isDarkMode } = useDarkMode();
+  const [selectedId, setSelectedId] = useState<string | undefined>(templates[0]?.id);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+
+  const template = templates.find(candidate => candidate.id === selectedId);
+  const parameters = template ? getTemplateParameters(template) : [];
+  const isFilled = parameters.every(parameter => values[parameter]?.trim());
+
+  const inputClass = `px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    isDarkMode
+      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-200 text-gray-800 placeholder-gray-400'
+  }`;
+
+  const selectTemplate = (templateId: string) => {
+    setSelectedId(templateId);
+    setValues({});
+  };
+
+  const saveSelection = () => {
+    if (!newName.trim()) return;
+    selectTemplate(onSaveSelection(newName.trim(), newDescription.trim()));
+    setNewName('');
+    setNewDescription('');
+  };
+
+  const renderGroup = (title: string, group: StepTemplate[]) => group.length > 0 && (
+    <div className="mb-4">
+      <h3 className="px-2 mb-1 text-xs font-semibold uppercase text-gray-500">{title}</h3>
+      {group.map(candidate => (
+        <button
+          key={candidate.id}
+          onClick={() => selectTemplate(candidate.id)}
+          className={`w-full px-2 py-1.5 rounded-md text-left text-sm truncate ${
+            candidate.id === selectedId
+              ? 'bg-blue-600 text-white'
+              : isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+          }`}
+        >
+          {candidate.name}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-6">
+      <div className={`w-full max-w-3xl max-h-full flex flex-col rounded-xl shadow-lg ${
+        isDarkMode ? 'bg-gray-800 text-gray-100' : 'bg-white text-gray-800'
+      }`}>
+        <div className={`px-6 py-4 flex items-center justify-between border-b ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5" />
+            Step templates
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-500/20">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex min-h-0 h-96">
+          {/* Template List */}
+          <div className={`w-56 p-3 overflow-y-auto border-r ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            {renderGroup('Built-in', templates.filter(candidate => candidate.builtIn))}
+            {renderGroup('Your templates', templates.filter(candidate => !candidate.builtIn))}
+          </div>
+
+          {/* Template Details */}
+          <div className="flex-1 p-6 overflow-y-auto">
+            {template ? (
+              <div className="space-y-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h3 className="font-semibold">{template.name}</h3>
+                    {template.description && (
+                      <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{template.description}</p>
+                    )}
+                  </div>
+                  {!template.builtIn && (
+                    <button
+                      onClick={() => {
+                        if (!confirm(`Delete the template "${template.name}"?`)) return;
+                        onDelete(template.id);
+                        setSelectedId(templates.find(candidate => candidate.id !== template.id)?.id);
+                      }}
+                      title="Delete template"
+                      className="p-1.5 rounded-md text-red-500 hover:bg-red-500/10"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                {parameters.length > 0 && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {parameters.map(parameter => (
+                      <label key={parameter} className="space-y-1 text-sm">
+                        <span className={isDarkMode ? 'text-gray-300' : 'text-gray-600'}>{parameter}</span>
+                        <input
+                          type="text"
+                          value={values[parameter] ?? ''}
+                          onChange={(e) => setValues(prev => ({ ...prev, [parameter]: e.target.value }))}
+                          className={`w-full ${inputClass}`}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {/* Preview with the values typed so far */}
+                <ol className={`pl-5 list-decimal text-sm space-y-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                  {template.steps.map(templateStep => (
+                    <li key={templateStep.id}>
+                      {fillParameters(templateStep.title, values)}
+                      {templateStep.type !== 'normal' && <span className="ml-2 text-xs text-gray-500">{templateStep.type}</span>}
+                      {templateStep.subSteps.length > 0 && (
+                        <span className="ml-2 text-xs text-gray-500">{templateStep.subSteps.length} sub-steps</span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+
+                <button
+                  onClick={() => onInsert(template, values)}
+                  disabled={!isFilled}
+                  className="px-4 py-2 rounded-lg flex items-center gap-2 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+                >
+                  <Plus className="w-4 h-4" />
+                  Insert {template.steps.length} steps
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No templates yet.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Save Selection */}
+        <div className={`px-6 py-4 flex items-center gap-3 border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Template name"
+            className={`w-48 ${inputClass}`}
+          />
+          <input
+            type="text"
+            value={newDescription}
+            onChange={(e) => setNewDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className={`flex-1 min-w-0 ${inputClass}`}
+          />
+          <button
+            onClick={saveSelection}
+            disabled={selectionCount === 0 || !newName.trim()}
+            title="Write [[parameter]] in titles or content to have it filled in on insert"
+            className={`px-4 py-2 rounded-lg text-sm whitespace-nowrap disabled:opacity-40 ${
+              isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+            }`}
+          >
+            Save {selectionCount} selected step{selectionCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { Check, Download, FlaskConical, Play, Upload, X, XCircle } from 'lucide-react';
+import { useDarkMode } from '../context/DarkModeContext';
+import { Step } from '../types/flow';
+import { downloadFile, fileSlug } from '../utils/download';
+import { RunOptions } from '../utils/flowEngine';
+import {
+  TestCase,
+  TestCaseResult,
+  enumeratePaths,
+  parseTestFile,
+  replayTestCase,
+  serializeTestFile,
+  testCasesToCsv
+} from '../utils/testCases';
+
+interface TestCasesDialogProps {
+  steps: Step[];
+  flowName: string;
+  // Lets generated paths descend into sub-flows
+  runOptions: RunOptions;
+  onClose: () => void;
+}
+
+const TestCasesDialog: React.FC<TestCasesDialogProps> = ({ steps, flowName, runOptions, onClose }) => {
+  const { isDarkMode } = useDarkMode();
+  const [loopBound, setLoopBound] = useState(1);
+  // Cases read from an exported file replace the generated ones until cleared
+  const [loaded, setLoaded] = useState<{ fileName: string; testCases: TestCase[] } | null>(null);
+  const [results, setResults] = useState<Map<string, TestCaseResult> | null>(null);
+
+  const enumeration = useMemo(
+    () => enumeratePaths(steps, { ...runOptions, loopBound }),
+    [steps, runOptions, loopBound]
+  );
+  const testCases = loaded ? loaded.testCases : enumeration.testCases;
+  const passedCount = results ? Array.from(results.values()).filter(result => result.passed).length : 0;
+
+  const runAll = () => {
+    setResults(new Map(testCases.map(testCase => [testCase.id, replayTestCase(steps, testCase, runOptions)])));
+  };
+
+  const exportCases = (format: 'json' | 'csv') => {
+    const fileName = `${fileSlug(flowName)}-test-cases.${format}`;
+    if (format === 'json') {
+      downloadFile(serializeTestFile(testCases, flowName, loopBound), fileName, 'application/json');
+    } else {
+      downloadFile(testCasesToCsv(testCases), fileName, 'text/csv');
+    }
+  };
+
+  const loadTestFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const testFile = parseTestFile(e.target?.result as string);
+        setLoaded({ fileName: file.name, testCases: testFile.testCases });
+        setResults(null);
+      } catch (error) {
+        alert(`Could not load test cases: ${(error as Error).message}`);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const buttonClass = `px-4 py-2 rounded-lg flex items-center gap-2 text-sm ${
+    isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-6">
+      <div className={`w-full max-w-3xl max-h-full flex flex-col rounded-xl shadow-lg ${
+        isDarkMode ? 'bg-gray-800 text-gray-100' : 'bg-white text-gray-800'
+      }`}>
+        <div className={`px-6 py-4 flex items-center justify-between border-b ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <FlaskConical className="w-5 h-5" />
+            Test cases for {flowName}
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-gray-500/20">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Source */}
+        <div className={`px-6 py-3 flex flex-wrap items-center gap-3 text-sm border-b ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          {loaded ? (
+            <>
+              <span className="flex-1">
+                {loaded.testCases.length} case{loaded.testCases.length === 1 ? '' : 's'} loaded from <strong>{loaded.fileName}</strong>
+              </span>
+              <button
+                onClick={() => {
+                  setLoaded(null);
+                  setResults(null);
+                }}
+                className={buttonClass}
+              >
+                Use generated cases
+              </button>
+            </>
+          ) : (
+            <>
+              <label className="flex items-center gap-2">
+                Repeat loops up to
+                <input
+                  type="number"
+                  min={0}
+                  max={5}
+                  value={loopBound}
+                  onChange={(e) => {
+                    setLoopBound(Math.min(5, Math.max(0, Number(e.target.value) || 0)));
+                    setResults(null);
+                  }}
+                  className={`w-16 px-2 py-1 rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-200 text-gray-800'
+                  }`}
+                />
+                time{loopBound === 1 ? '' : 's'}
+              </label>
+              <span className="flex-1 text-gray-500">
+                {enumeration.testCases.length} path{enumeration.testCases.length === 1 ? '' : 's'}
+                {enumeration.cutLoops > 0 && `, ${enumeration.cutLoops} looping branch${enumeration.cutLoops === 1 ? '' : 'es'} cut`}
+                {enumeration.truncated && ', list truncated'}
+              </span>
+              <label className={`${buttonClass} cursor-pointer`}>
+                <Upload className="w-4 h-4" />
+                Load test file
+                <input type="file" accept=".json" onChange={loadTestFile} className="hidden" />
+              </label>
+            </>
+          )}
+        </div>
+
+        {/* Case List */}
+        <div className="py-1 overflow-y-auto min-h-0">
+          {testCases.length === 0 && (
+            <p className="px-6 py-8 text-sm text-center text-gray-500">
+              No path reaches the end of the flow. Add sub-steps to the first step or raise the loop limit.
+            </p>
+          )}
+          {testCases.map(testCase => {
+            const result = results?.get(testCase.id);
+            return (
+              <div key={testCase.id} className="px-6 py-2 text-sm flex items-start gap-3">
+                <span className="w-5 pt-0.5">
+                  {result && (result.passed
+                    ? <Check className="w-4 h-4 text-green-500" />
+                    : <XCircle className="w-4 h-4 text-red-500" />
+                  )}
+                </span>
+                <span className="w-14 font-mono text-gray-500">{testCase.id}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap gap-1">
+                    {testCase.choices.map((choice, index) => (
+                      <span
+                        key={index}
+                        title={testCase.stepTitles[index]}
+                        className={`px-1.5 rounded text-xs font-medium text-white ${
+                          choice === 'success' ? 'bg-green-500' : choice === 'failure' ? 'bg-red-500' : 'bg-blue-500'
+                        }`}
+                      >
+                        {typeof choice === 'object' ? testCase.choiceLabels[index] : choice === 'success' ? 'S' : 'F'}
+                      </span>
+                    ))}
+                  </div>
+                  {result && !result.passed && (
+                    <div className="mt-1 text-xs text-red-500">{result.message}</div>
+                  )}
+                </div>
+                <span className={`truncate max-w-[40%] ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                  ends at {testCase.expectedEndStepTitle || testCase.expectedEndStepId}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className={`px-6 py-4 flex items-center gap-3 border-t ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <span className="flex-1 text-sm">
+            {results && `${passedCount} of ${results.size} passed`}
+          </span>
+          <button onClick={() => exportCases('csv')} disabled={testCases.length === 0} className={`${buttonClass} disabled:opacity-40`}>
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button onClick={() => exportCases('json')} disabled={testCases.length === 0} className={`${buttonClass} disabled:opacity-40`}>
+            <Download className="w-4 h-4" />
+            JSON
+          </button>
+          <button
+            onClick={runAll}
+            disabled={testCases.length === 0}
+            className="px-4 py-2 rounded-lg flex items-center gap-2 text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+          >
+            <Play className="w-4 h-4" />
+            Replay all
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TestCasesDialog;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+
+interface DropTarget {
+  id: string;
+  after: boolean;
+}
+
+// Items dropped on the lower half of a row land after it, on the upper half before it
+const isLowerHalf = (e: React.DragEvent<HTMLElement>) => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return e.clientY > rect.top + rect.height / 2;
+};
+
+// Native drag and drop for reordering a list. Rows get the target props; the handle props go
+// on the row itself or, when the row holds inputs, on a grip so text can still be selected.
+// Each list tracks its own dragged id, so an item never drops into another list.
+export const useDragReorder = (onReorder: (id: string, targetId: string, after: boolean) => void) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const reset = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const getHandleProps = (id: string) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent<HTMLElement>) => {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', id);
+      setDraggedId(id);
+    },
+    onDragEnd: reset
+  });
+
+  const getTargetProps = (id: string) => ({
+    onDragOver: (e: React.DragEvent<HTMLElement>) => {
+      if (!draggedId) return;
+      e.preventDefault();
+      const after = isLowerHalf(e);
+      setDropTarget(prev => (prev?.id === id && prev.after === after ? prev : { id, after }));
+    },
+    onDrop: (e: React.DragEvent<HTMLElement>) => {
+      if (!draggedId) return;
+      e.preventDefault();
+      if (draggedId !== id) onReorder(draggedId, id, isLowerHalf(e));
+      reset();
+    }
+  });
+
+  // Where to draw the insertion line for a row, if anywhere
+  const getDropPosition = (id: string): 'before' | 'after' | undefined => {
+    if (!dropTarget || dropTarget.id !== id || draggedId === id) return undefined;
+    return dropTarget.after ? 'after' : 'before';
+  };
+
+  return { draggedId, getHandleProps, getTargetProps, getDropPosition };
+};
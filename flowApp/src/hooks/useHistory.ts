@@ -0,0 +1,91 @@
+import { useCallback, useState } from 'react';
+
+export interface HistoryEntry<T> {
+  state: T;
+  label: string;
+  timestamp: number;
+  // Consecutive changes sharing a group key (e.g. typing into one field) collapse into one entry
+  groupKey?: string;
+}
+
+export interface HistoryOptions {
+  label?: string;
+  groupKey?: string;
+}
+
+type SetStateAction<T> = T | ((prev: T) => T);
+
+const MAX_ENTRIES = 100;
+const GROUP_WINDOW_MS = 1000;
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+export const useHistory = <T,>(initialState: T | (() => T), initialLabel = 'Loaded') => {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    entries: [{
+      state: initialState instanceof Function ? initialState() : initialState,
+      label: initialLabel,
+      timestamp: Date.now()
+    }],
+    index: 0
+  }));
+
+  const set = useCallback((action: SetStateAction<T>, options: HistoryOptions = {}) => {
+    setHistory(prev => {
+      const current = prev.entries[prev.index];
+      const state = action instanceof Function ? action(current.state) : action;
+      if (state === current.state) return prev;
+
+      const now = Date.now();
+      const entry: HistoryEntry<T> = {
+        state,
+        label: options.label ?? 'Edit',
+        timestamp: now,
+        groupKey: options.groupKey
+      };
+
+      // Keep rapid edits to the same field as a single undo step
+      const isSameGroup = options.groupKey !== undefined
+        && current.groupKey === options.groupKey
+        && prev.index > 0
+        && now - current.timestamp < GROUP_WINDOW_MS;
+
+      const kept = prev.entries.slice(0, isSameGroup ? prev.index : prev.index + 1);
+      const entries = [...kept, entry].slice(-MAX_ENTRIES);
+      return { entries, index: entries.length - 1 };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => prev.index > 0 ? { ...prev, index: prev.index - 1 } : prev);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => prev.index < prev.entries.length - 1 ? { ...prev, index: prev.index + 1 } : prev);
+  }, []);
+
+  const jumpTo = useCallback((index: number) => {
+    setHistory(prev => index >= 0 && index < prev.entries.length ? { ...prev, index } : prev);
+  }, []);
+
+  // Replaces the whole history, e.g. when switching to another flow
+  const reset = useCallback((state: T, label = initialLabel) => {
+    setHistory({ entries: [{ state, label, timestamp: Date.now() }], index: 0 });
+  }, [initialLabel]);
+
+  return {
+    state: history.entries[history.index].state,
+    set,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1
+  };
+};
@@ -0,0 +1,84 @@
+// Shared flow model used by the editor, canvas and helpers
+// A 'subflow' step runs another saved flow and continues on its own success or failure link
+export type StepType = 'normal' | 'success' | 'failure' | 'subflow';
+
+export type SubStepAction = 'next' | 'goto';
+
+export type StepResult = 'success' | 'failure';
+
+// Checks are answered with success/failure; decisions pick one of their named outcomes;
+// inputs store what the operator enters in a variable; branches answer themselves by
+// evaluating a condition over the variables
+export type SubStepKind = 'check' | 'decision' | 'input' | 'branch';
+
+// How bad it is when a step goes wrong; informational only
+export type StepSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type VariableType = 'text' | 'number' | 'choice';
+
+export type VariableValue = string | number;
+
+export interface InputPrompt {
+  // Variable the answer is stored in, referenced as {{variable}} in titles and content
+  variable: string;
+  type: VariableType;
+  // Allowed answers of a 'choice' input
+  options?: string[];
+}
+
+export interface DecisionOutcome {
+  id: string;
+  label: string;
+  // The flow ends when an outcome has no target
+  targetStepId?: string;
+}
+
+export interface SubStep {
+  id: string;
+  // Markdown, see utils/markdown.ts for what is supported
+  content: string;
+  // Images added to the content as data URLs, keyed by the id used in ![alt](image:id)
+  images?: Record<string, string>;
+  successAction: SubStepAction;
+  failureAction: SubStepAction;
+  successStepId?: string;
+  failureStepId?: string;
+  // Missing on sub-steps saved before decisions existed, which are checks
+  kind?: SubStepKind;
+  outcomes?: DecisionOutcome[];
+  input?: InputPrompt;
+  // Expression of a branch; true routes as success, false as failure
+  condition?: string;
+}
+
+// How a sub-step was answered
+export type Choice = StepResult | { outcomeId: string } | { value: VariableValue };
+
+export interface StepPosition {
+  x: number;
+  y: number;
+}
+
+export interface Step {
+  id: string;
+  title: string;
+  type: StepType;
+  subSteps: SubStep[];
+  expanded: boolean;
+  successStepId?: string;
+  failureStepId?: string;
+  // Canvas coordinates, persisted with the step so the diagram survives reload/export
+  position?: StepPosition;
+  // Flow called by a 'subflow' step
+  subFlowId?: string;
+  // Where runs begin; flows without a marked step start at their first step
+  isStart?: boolean;
+  // Metadata for the people maintaining and running the flow; none of it changes routing
+  tags?: string[];
+  // Person or role responsible for the step
+  owner?: string;
+  estimatedMinutes?: number;
+  severity?: StepSeverity;
+  // Internal notes for editors, not shown while simulating
+  notes?: string;
+}
@@ -0,0 +1,38 @@
+import { StepResult, VariableValue } from './flow';
+
+// One answered sub-step in a recorded simulation run
+export interface SessionEntry {
+  stepId: string;
+  stepTitle: string;
+  subStepId?: string;
+  subStepIndex: number;
+  subStepContent: string;
+  // Decisions record 'outcome' here and the chosen outcome below; inputs record success
+  // and the value entered
+  result: StepResult | 'outcome';
+  outcomeId?: string;
+  outcomeLabel?: string;
+  value?: VariableValue;
+  // Set on branches that answered themselves from the run's variables
+  isAutomatic?: boolean;
+  startedAt: number;
+  endedAt: number;
+}
+
+export type SessionOutcome = 'completed' | 'abandoned';
+
+export interface SimulationSession {
+  id: string;
+  flowId: string;
+  flowName: string;
+  operator: string;
+  startedAt: number;
+  endedAt: number;
+  outcome: SessionOutcome;
+  // Step the run ended on, if it reached the end of the flow
+  endStepId?: string;
+  endStepTitle?: string;
+  entries: SessionEntry[];
+  // Free-text notes keyed by step id
+  notes: Record<string, string>;
+}
@@ -0,0 +1,14 @@
+import { Step } from './flow';
+
+// A reusable group of steps. Titles, sub-step content, outcome labels and notes may hold
+// [[parameter]] placeholders, filled in when the template is inserted into a flow.
+export interface StepTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Links only point at other steps of the template
+  steps: Step[];
+  // Shipped with the app, so it cannot be deleted
+  builtIn?: boolean;
+  createdAt?: number;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Step } from '../types/flow';
+import { SessionEntry, SimulationSession } from '../types/session';
+import { computeFlowAnalytics } from './analytics';
+
+const entry = (stepId: string, subStepId?: string): SessionEntry => ({
+  stepId,
+  stepTitle: stepId,
+  subStepId,
+  subStepIndex: 0,
+  subStepContent: '',
+  result: 'success',
+  startedAt: 0,
+  endedAt: 0
+});
+
+describe('computeFlowAnalytics', () => {
+  it('counts the link into a sub-flow step and leaves the called flow out', () => {
+    const steps: Step[] = [
+      { id: 'first', title: 'First', type: 'normal', expanded: false, successStepId: 'call', subSteps: [
+        { id: 'a', content: '', successAction: 'next', failureAction: 'next' }
+      ] },
+      { id: 'call', title: 'Call', type: 'subflow', subFlowId: 'child', expanded: false, successStepId: 'done', subSteps: [] },
+      { id: 'done', title: 'Done', type: 'success', expanded: false, subSteps: [] }
+    ];
+    const session: SimulationSession = {
+      id: 'run',
+      flowId: 'main',
+      flowName: 'Main',
+      operator: '',
+      startedAt: 0,
+      endedAt: 0,
+      outcome: 'completed',
+      endStepId: 'done',
+      endStepTitle: 'Done',
+      // The middle entry was answered inside the called flow
+      entries: [entry('first', 'a'), entry('child-check', 'c'), entry('call')],
+      notes: {}
+    };
+
+    const analytics = computeFlowAnalytics(steps, [session]);
+    expect(Array.from(analytics.edgeTraversals.keys())).toEqual(['first-success', 'call-success']);
+    expect(analytics.unusedEdges).toEqual([]);
+    expect(Object.fromEntries(analytics.stepVisits)).toEqual({ first: 1, call: 1, done: 1 });
+    expect(analytics.subStepStats.has('c')).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+import { Step } from '../types/flow';
+import { SessionEntry, SimulationSession } from '../types/session';
+import { FlowEdge, getStepEdges } from './graph';
+
+export interface SubStepStats {
+  visits: number;
+  successes: number;
+  failures: number;
+  // How often each outcome of a decision was chosen, keyed by outcome id
+  outcomes: Map<string, number>;
+}
+
+export interface EndStepStats {
+  stepId?: string;
+  title: string;
+  count: number;
+}
+
+export interface FlowAnalytics {
+  runCount: number;
+  completedCount: number;
+  averageCompletionMs?: number;
+  // Number of times each step was entered, keyed by step id
+  stepVisits: Map<string, number>;
+  subStepStats: Map<string, SubStepStats>;
+  // Number of times each link was followed, keyed by FlowEdge id
+  edgeTraversals: Map<string, number>;
+  // Completed runs grouped by the step they ended on, most common first
+  endSteps: EndStepStats[];
+  unvisitedStepIds: string[];
+  unusedEdges: FlowEdge[];
+}
+
+const increment = (map: Map<string, number>, key: string) => map.set(key, (map.get(key) ?? 0) + 1);
+
+// Answering success on a 'next' sub-step that is not the last one stays on the same step
+const staysOnStep = (entry: SessionEntry, next?: SessionEntry) =>
+  !!next && entry.result === 'success' && next.stepId === entry.stepId && next.subStepIndex === entry.subStepIndex + 1;
+
+// Works out which link of the current flow a recorded transition followed. Runs recorded
+// before the flow was edited may point at links that no longer exist; those are skipped.
+const findTraversedEdge = (
+  steps: Step[],
+  edgesById: Map<string, FlowEdge>,
+  entry: SessionEntry,
+  targetStepId: string
+): FlowEdge | undefined => {
+  let edgeId: string;
+  const subStep = steps.find(step => step.id === entry.stepId)?.subSteps.find(s => s.id === entry.subStepId);
+  if (!entry.subStepId) {
+    // A sub-flow call continues on its step's own links
+    edgeId = `${entry.stepId}-${entry.result}`;
+  } else if (!subStep) {
+    return undefined;
+  } else if (entry.result === 'outcome') {
+    edgeId = `${subStep.id}-${entry.outcomeId}`;
+  } else {
+    const action = entry.result === 'success' ? subStep.successAction : subStep.failureAction;
+    edgeId = action === 'goto' ? `${subStep.id}-${entry.result}` : `${entry.stepId}-${entry.result}`;
+  }
+  const edge = edgesById.get(edgeId);
+  return edge?.target === targetStepId ? edge : undefined;
+};
+
+// Aggregates the recorded runs of one flow against its current steps
+export const computeFlowAnalytics = (steps: Step[], sessions: SimulationSession[]): FlowAnalytics => {
+  const edges = getStepEdges(steps);
+  const stepIds = new Set(steps.map(step => step.id));
+  const edgesById = new Map(edges.map(edge => [edge.id, edge]));
+  const stepVisits = new Map<string, number>();
+  const subStepStats = new Map<string, SubStepStats>();
+  const edgeTraversals = new Map<string, number>();
+  const endCounts = new Map<string, EndStepStats>();
+
+  sessions.forEach(session => {
+    // Entries inside a sub-flow belong to the called flow. Without them the answer that led to a
+    // calling step is followed directly by the entry recording how its sub-flow ended.
+    const entries = session.entries.filter(entry => stepIds.has(entry.stepId));
+    entries.forEach((entry, index) => {
+      if (index === 0) increment(stepVisits, entry.stepId);
+
+      if (entry.subStepId) {
+        const stats = subStepStats.get(entry.subStepId) ?? { visits: 0, successes: 0, failures: 0, outcomes: new Map() };
+        stats.visits++;
+        if (entry.result === 'success') stats.successes++;
+        if (entry.result === 'failure') stats.failures++;
+        if (entry.outcomeId) increment(stats.outcomes, entry.outcomeId);
+        subStepStats.set(entry.subStepId, stats);
+      }
+
+      const next = entries[index + 1];
+      if (staysOnStep(entry, next)) return;
+      // The last answer only moves on if the run ended on a different (terminal) step
+      const targetStepId = next ? next.stepId : session.endStepId !== entry.stepId ? session.endStepId : undefined;
+      if (!targetStepId) return;
+
+      increment(stepVisits, targetStepId);
+      const edge = findTraversedEdge(steps, edgesById, entry, targetStepId);
+      if (edge) increment(edgeTraversals, edge.id);
+    });
+
+    if (session.outcome === 'completed') {
+      const key = session.endStepId ?? session.endStepTitle ?? '';
+      const title = steps.find(step => step.id === session.endStepId)?.title ?? session.endStepTitle ?? 'Unknown step';
+      const stats = endCounts.get(key) ?? { stepId: session.endStepId, title, count: 0 };
+      stats.count++;
+      endCounts.set(key, stats);
+    }
+  });
+
+  const completed = sessions.filter(session => session.outcome === 'completed');
+  const averageCompletionMs = completed.length > 0
+    ? completed.reduce((sum, session) => sum + session.endedAt - session.startedAt, 0) / completed.length
+    : undefined;
+
+  return {
+    runCount: sessions.length,
+    completedCount: completed.length,
+    averageCompletionMs,
+    stepVisits,
+    subStepStats,
+    edgeTraversals,
+    endSteps: Array.from(endCounts.values()).sort((a, b) => b.count - a.count),
+    unvisitedStepIds: steps.filter(step => !stepVisits.has(step.id)).map(step => step.id),
+    unusedEdges: edges.filter(edge => !edgeTraversals.has(edge.id))
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { Step } from '../types/flow';
+import { toPlantUml } from './exporters';
+
+describe('toPlantUml', () => {
+  const steps: Step[] = [
+    { id: 'ask', title: 'Ask "which"\nport', type: 'normal', expanded: false, subSteps: [
+      {
+        id: 'pick',
+        content: '',
+        successAction: 'next',
+        failureAction: 'next',
+        kind: 'decision',
+        outcomes: [{ id: 'left', label: 'Port [A]\nleft', targetStepId: 'done' }]
+      }
+    ] },
+    { id: 'done', title: 'Done', type: 'success', expanded: false, subSteps: [] },
+    { id: 'loose', title: 'Loose\nend', type: 'normal', expanded: false, subSteps: [] }
+  ];
+
+  it('keeps quotes, brackets and line breaks from breaking statements', () => {
+    expect(toPlantUml(steps).split('\n')).toEqual([
+      '@startuml',
+      `(*) --> "Ask 'which' port" as step1`,
+      'step1 -[#blue,dashed]->[Port (A) left] "Done" as step2',
+      'step2 -[#green]-> (*)',
+      "' Not connected: Loose end",
+      '@enduml'
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import { Step } from '../types/flow';
+import { getStartStep } from './flowEngine';
+import { EdgeKind, FlowEdge, getStepEdges } from './graph';
+
+export type DiagramFormat = 'mermaid' | 'dot' | 'plantuml';
+
+export const DIAGRAM_FORMATS: Array<{ id: DiagramFormat; label: string; extension: string }> = [
+  { id: 'mermaid', label: 'Mermaid', extension: 'mmd' },
+  { id: 'dot', label: 'Graphviz DOT', extension: 'dot' },
+  { id: 'plantuml', label: 'PlantUML', extension: 'puml' }
+];
+
+// Identifiers that are valid in all three languages regardless of the generated step ids
+const createNodeIds = (steps: Step[]) =>
+  new Map(steps.map((step, index) => [step.id, `step${index + 1}`]));
+
+const EDGE_COLORS: Record<EdgeKind, string> = {
+  success: '#22c55e',
+  failure: '#ef4444',
+  outcome: '#3b82f6'
+};
+
+// Decision outcomes are labelled with the outcome name alone so they read like a question
+const getEdgeLabel = (steps: Step[], edge: FlowEdge) => {
+  if (edge.kind === 'outcome') return edge.label || 'outcome';
+  if (!edge.subStepId) return edge.kind;
+  const source = steps.find(step => step.id === edge.source);
+  const subStepIndex = source?.subSteps.findIndex(subStep => subStep.id === edge.subStepId) ?? -1;
+  return `sub-step ${subStepIndex + 1} ${edge.kind}`;
+};
+
+const stepLabel = (step: Step) => step.title.trim() || 'Untitled step';
+
+export const toMermaid = (steps: Step[]): string => {
+  const ids = createNodeIds(steps);
+  const escape = (text: string) => text.replace(/"/g, '#quot;').replace(/\|/g, '#124;');
+  const lines = ['flowchart TD'];
+
+  steps.forEach(step => {
+    const label = `"${escape(stepLabel(step))}"`;
+    const id = ids.get(step.id);
+    // Terminal steps use the stadium shape, sub-flow calls the subroutine shape and steps
+    // asking a decision the rhombus, so all of them stand out from regular steps
+    if (step.type === 'subflow') {
+      lines.push(`  ${id}[[${label}]]`);
+    } else if (step.type !== 'normal') {
+      lines.push(`  ${id}([${label}])`);
+    } else if (step.subSteps.some(subStep => subStep.kind === 'decision')) {
+      lines.push(`  ${id}{${label}}`);
+    } else {
+      lines.push(`  ${id}[${label}]`);
+    }
+  });
+
+  const edges = getStepEdges(steps);
+  edges.forEach(edge => {
+    const arrow = edge.subStepId ? '-.->' : '-->';
+    lines.push(`  ${ids.get(edge.source)} ${arrow}|${escape(getEdgeLabel(steps, edge))}| ${ids.get(edge.target)}`);
+  });
+
+  lines.push('  classDef success fill:#dcfce7,stroke:#22c55e');
+  lines.push('  classDef failure fill:#fee2e2,stroke:#ef4444');
+  (['success', 'failure'] as const).forEach(type => {
+    const typed = steps.filter(step => step.type === type).map(step => ids.get(step.id));
+    if (typed.length > 0) lines.push(`  class ${typed.join(',')} ${type}`);
+  });
+  // Colour edges by outcome; linkStyle indexes follow declaration order
+  edges.forEach((edge, index) => {
+    lines.push(`  linkStyle ${index} stroke:${EDGE_COLORS[edge.kind]}`);
+  });
+
+  return lines.join('\n');
+};
+
+export const toDot = (steps: Step[]): string => {
+  const ids = createNodeIds(steps);
+  const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  const lines = [
+    'digraph flow {',
+    '  rankdir=TB;',
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff", fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];'
+  ];
+
+  steps.forEach(step => {
+    const attributes = [`label="${escape(stepLabel(step))}"`];
+    if (step.type === 'success') attributes.push('fillcolor="#dcfce7"', 'color="#22c55e"', 'peripheries=2');
+    if (step.type === 'failure') attributes.push('fillcolor="#fee2e2"', 'color="#ef4444"', 'peripheries=2');
+    lines.push(`  ${ids.get(step.id)} [${attributes.join(', ')}];`);
+  });
+
+  getStepEdges(steps).forEach(edge => {
+    const attributes = [
+      `label="${escape(getEdgeLabel(steps, edge))}"`,
+      `color="${EDGE_COLORS[edge.kind]}"`
+    ];
+    if (edge.subStepId) attributes.push('style=dashed');
+    lines.push(`  ${ids.get(edge.source)} -> ${ids.get(edge.target)} [${attributes.join(', ')}];`);
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+};
+
+// Uses the legacy activity syntax, which (unlike the newer one) allows arbitrary arrows
+// between activities and therefore represents loops and goto links faithfully
+export const toPlantUml = (steps: Step[]): string => {
+  const ids = createNodeIds(steps);
+  // Every statement is one line, so line breaks become spaces
+  const escape = (text: string) => text.replace(/"/g, "'").replace(/\s*[\r\n]+\s*/g, ' ');
+  // An arrow label ends at the first ] and PlantUML has no way to escape it
+  const escapeLabel = (text: string) => escape(text).replace(/\[/g, '(').replace(/]/g, ')');
+  const declared = new Set<string>();
+  const lines = ['@startuml'];
+
+  // The first reference to an activity declares it with its label
+  const ref = (step: Step) => {
+    const id = ids.get(step.id)!;
+    if (declared.has(id)) return id;
+    declared.add(id);
+    return `"${escape(stepLabel(step))}" as ${id}`;
+  };
+  const byId = new Map(steps.map(step => [step.id, step]));
+
+  const start = getStartStep(steps);
+  if (start) {
+    lines.push(`(*) --> ${ref(start)}`);
+  }
+
+  getStepEdges(steps).forEach(edge => {
+    const color = edge.kind === 'success' ? '#green' : edge.kind === 'failure' ? '#red' : '#blue';
+    const style = edge.subStepId ? ',dashed' : '';
+    lines.push(
+      `${ref(byId.get(edge.source)!)} -[${color}${style}]->[${escapeLabel(getEdgeLabel(steps, edge))}] ${ref(byId.get(edge.target)!)}`
+    );
+  });
+
+  steps
+    .filter(step => step.type === 'success' || step.type === 'failure')
+    .forEach(step => {
+      const color = step.type === 'success' ? '#green' : '#red';
+      lines.push(`${ref(step)} -[${color}]-> (*)`);
+    });
+
+  steps
+    .filter(step => !declared.has(ids.get(step.id)!))
+    .forEach(step => lines.push(`' Not connected: ${escape(stepLabel(step))}`));
+
+  lines.push('@enduml');
+  return lines.join('\n');
+};
+
+export const exportDiagram = (steps: Step[], format: DiagramFormat): string => {
+  switch (format) {
+    case 'mermaid':
+      return toMermaid(steps);
+    case 'dot':
+      return toDot(steps);
+    case 'plantuml':
+      return toPlantUml(steps);
+  }
+};
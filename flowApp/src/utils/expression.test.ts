@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCondition } from './expression';
+import { interpolate } from './variables';
+
+describe('evaluateCondition', () => {
+  it('reads the variables that are set', () => {
+    expect(evaluateCondition('count > 3 and name == "Ada"', { count: 5, name: 'Ada' })).toEqual({ value: true });
+  });
+
+  it('reports variables without a value, including names on the object prototype', () => {
+    expect(evaluateCondition('missing == 1', {})).toEqual({ value: false, error: '"missing" has no value yet' });
+    expect(evaluateCondition('constructor', {})).toEqual({ value: false, error: '"constructor" has no value yet' });
+    expect(evaluateCondition('toString == 1', {})).toEqual({ value: false, error: '"toString" has no value yet' });
+  });
+});
+
+describe('interpolate', () => {
+  it('leaves placeholders without a value as typed', () => {
+    expect(interpolate('Hi {{name}}, {{constructor}}', { name: 'Ada' })).toBe('Hi Ada, {{constructor}}');
+  });
+});
@@ -0,0 +1,224 @@
+import { VariableValue } from '../types/flow';
+
+// A small expression language for automatic branches. It only reads variables, so a
+// condition can never change the flow or reach the page:
+//   numbers, 'quoted' or "quoted" text, true / false, variable names
+//   + - * / %   == != < <= > >=   contains   and / &&   or / ||   not / !   ( )
+
+export type ExpressionValue = VariableValue | boolean;
+
+export type ExpressionNode =
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; operator: string; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+interface Token {
+  kind: 'number' | 'string' | 'name' | 'operator';
+  text: string;
+  position: number;
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')'];
+// Word operators are normalised to their symbol so the evaluator only knows one spelling
+const WORD_OPERATORS = new Map([['and', '&&'], ['or', '||'], ['not', '!'], ['contains', 'contains']]);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      index += space[0].length;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    if (name) {
+      const word = WORD_OPERATORS.get(name[0].toLowerCase());
+      tokens.push({ kind: word ? 'operator' : 'name', text: word ?? name[0], position: index });
+      index += name[0].length;
+      continue;
+    }
+
+    if (rest[0] === '"' || rest[0] === "'") {
+      const end = source.indexOf(rest[0], index + 1);
+      if (end === -1) throw new Error(`Text starting at position ${index + 1} is never closed`);
+      tokens.push({ kind: 'string', text: source.slice(index + 1, end), position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (!operator) throw new Error(`Unexpected "${rest[0]}" at position ${index + 1}`);
+    tokens.push({ kind: 'operator', text: operator, position: index });
+    index += operator.length;
+  }
+
+  return tokens;
+};
+
+// Recursive descent over the usual precedence: or, and, not, comparison, + -, * / %, unary minus
+export const parseExpression = (source: string): ExpressionNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const accept = (...operators: string[]) => {
+    const token = peek();
+    if (token?.kind === 'operator' && operators.includes(token.text)) {
+      index++;
+      return token.text;
+    }
+    return undefined;
+  };
+
+  const binary = (next: () => ExpressionNode, ...operators: string[]) => (): ExpressionNode => {
+    let left = next();
+    let operator = accept(...operators);
+    while (operator) {
+      left = { type: 'binary', operator, left, right: next() };
+      operator = accept(...operators);
+    }
+    return left;
+  };
+
+  const primary = (): ExpressionNode => {
+    const token = peek();
+    if (!token) throw new Error('The expression ends too early');
+    index++;
+    if (token.kind === 'number') return { type: 'literal', value: Number(token.text) };
+    if (token.kind === 'string') return { type: 'literal', value: token.text };
+    if (token.kind === 'name') {
+      const word = token.text.toLowerCase();
+      if (word === 'true' || word === 'false') return { type: 'literal', value: word === 'true' };
+      return { type: 'variable', name: token.text };
+    }
+    if (token.text === '(') {
+      const inner = or();
+      if (!accept(')')) throw new Error(`Missing ")" for the "(" at position ${token.position + 1}`);
+      return inner;
+    }
+    throw new Error(`Unexpected "${token.text}" at position ${token.position + 1}`);
+  };
+
+  const unary = (): ExpressionNode =>
+    accept('-') ? { type: 'unary', operator: '-', operand: unary() } : primary();
+  const multiplicative = binary(unary, '*', '/', '%');
+  const additive = binary(multiplicative, '+', '-');
+  const comparison = (): ExpressionNode => {
+    const left = additive();
+    const operator = accept('==', '!=', '<', '<=', '>', '>=', 'contains');
+    return operator ? { type: 'binary', operator, left, right: additive() } : left;
+  };
+  const not = (): ExpressionNode =>
+    accept('!') ? { type: 'unary', operator: '!', operand: not() } : comparison();
+  const and = binary(not, '&&');
+  const or: () => ExpressionNode = binary(and, '||');
+
+  if (tokens.length === 0) throw new Error('The expression is empty');
+  const node = or();
+  const extra = peek();
+  if (extra) throw new Error(`Unexpected "${extra.text}" at position ${extra.position + 1}`);
+  return node;
+};
+
+// Names of every variable the expression reads
+export const getExpressionVariables = (node: ExpressionNode): string[] => {
+  switch (node.type) {
+    case 'literal':
+      return [];
+    case 'variable':
+      return [node.name];
+    case 'unary':
+      return getExpressionVariables(node.operand);
+    case 'binary':
+      return Array.from(new Set([...getExpressionVariables(node.left), ...getExpressionVariables(node.right)]));
+  }
+};
+
+const isTruthy = (value: ExpressionValue) => typeof value === 'string' ? value !== '' : !!value;
+
+// Text that looks like a number compares as one, so "10" > 9 behaves as people expect
+const asNumber = (value: ExpressionValue): number | undefined => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return undefined;
+};
+
+const requireNumber = (value: ExpressionValue, operator: string): number => {
+  const number = asNumber(value);
+  if (number === undefined) throw new Error(`"${operator}" needs numbers, got "${value}"`);
+  return number;
+};
+
+const compare = (left: ExpressionValue, right: ExpressionValue): number => {
+  const a = asNumber(left);
+  const b = asNumber(right);
+  if (a !== undefined && b !== undefined) return a - b;
+  return String(left).localeCompare(String(right));
+};
+
+export const evaluateExpression = (node: ExpressionNode, variables: Record<string, VariableValue>): ExpressionValue => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'variable':
+      // Own properties only, so names like constructor are not read off the object prototype
+      if (!Object.prototype.hasOwnProperty.call(variables, node.name)) throw new Error(`"${node.name}" has no value yet`);
+      return variables[node.name];
+    case 'unary': {
+      const operand = evaluateExpression(node.operand, variables);
+      return node.operator === '!' ? !isTruthy(operand) : -requireNumber(operand, '-');
+    }
+    case 'binary': {
+      // and / or short-circuit so a guard can protect a variable that is not set yet
+      const left = evaluateExpression(node.left, variables);
+      if (node.operator === '&&') return isTruthy(left) && isTruthy(evaluateExpression(node.right, variables));
+      if (node.operator === '||') return isTruthy(left) || isTruthy(evaluateExpression(node.right, variables));
+
+      const right = evaluateExpression(node.right, variables);
+      switch (node.operator) {
+        case '==': return compare(left, right) === 0;
+        case '!=': return compare(left, right) !== 0;
+        case '<': return compare(left, right) < 0;
+        case '<=': return compare(left, right) <= 0;
+        case '>': return compare(left, right) > 0;
+        case '>=': return compare(left, right) >= 0;
+        case 'contains': return String(left).toLowerCase().includes(String(right).toLowerCase());
+        case '+': {
+          const a = asNumber(left);
+          const b = asNumber(right);
+          return a !== undefined && b !== undefined ? a + b : `${left}${right}`;
+        }
+        case '-': return requireNumber(left, '-') - requireNumber(right, '-');
+        case '*': return requireNumber(left, '*') * requireNumber(right, '*');
+        case '/': return requireNumber(left, '/') / requireNumber(right, '/');
+        case '%': return requireNumber(left, '%') % requireNumber(right, '%');
+      }
+      throw new Error(`Unknown operator "${node.operator}"`);
+    }
+  }
+};
+
+// Evaluates a branch condition. A condition that cannot be parsed or evaluated is false
+// and reports why.
+export const evaluateCondition = (
+  source: string,
+  variables: Record<string, VariableValue>
+): { value: boolean; error?: string } => {
+  try {
+    return { value: isTruthy(evaluateExpression(parseExpression(source), variables)) };
+  } catch (error) {
+    return { value: false, error: (error as Error).message };
+  }
+};
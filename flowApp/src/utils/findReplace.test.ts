@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Step } from '../types/flow';
+import { FindOptions, findMatches, getMatchContext, replaceAll, replaceMatch } from './findReplace';
+
+const steps: Step[] = [
+  { id: 'plug', title: 'Check the Cable', type: 'normal', expanded: false, subSteps: [
+    { id: 'look', content: 'Is the cable in? Try another cable.', successAction: 'next', failureAction: 'next' }
+  ] },
+  { id: 'mail', title: 'Mail support@example', type: 'normal', expanded: false, subSteps: [] }
+];
+
+const plain = (query: string, overrides: Partial<FindOptions> = {}): FindOptions => ({
+  query,
+  isRegex: false,
+  isCaseSensitive: false,
+  ...overrides
+});
+
+const regex = (query: string) => plain(query, { isRegex: true });
+
+const texts = (result: Step[]) => result.flatMap(step => [step.title, ...step.subSteps.map(subStep => subStep.content)]);
+
+describe('findMatches', () => {
+  it('finds titles and sub-step content in flow order', () => {
+    const { matches } = findMatches(steps, plain('cable'));
+    expect(matches.map(match => [match.field, match.index])).toEqual([['title', 10], ['content', 7], ['content', 29]]);
+    expect(getMatchContext(steps, matches[1])).toEqual({ before: 'Is the ', matched: 'cable', after: ' in? Try another cable.' });
+  });
+
+  it('respects case sensitivity', () => {
+    expect(findMatches(steps, plain('Cable', { isCaseSensitive: true })).matches).toHaveLength(1);
+  });
+
+  it('treats regular expression characters literally in plain searches', () => {
+    expect(findMatches(steps, plain('in?')).matches).toHaveLength(1);
+    expect(findMatches(steps, regex('in?')).matches.length).toBeGreaterThan(1);
+  });
+
+  it('reports invalid regular expressions and skips empty matches', () => {
+    expect(findMatches(steps, regex('(')).error).toBeDefined();
+    expect(findMatches(steps, regex('z*')).matches).toEqual([]);
+  });
+});
+
+describe('replaceAll', () => {
+  it('replaces every match and counts them', () => {
+    const result = replaceAll(steps, plain('cable'), 'lead');
+    expect(result.count).toBe(3);
+    expect(texts(result.steps)).toEqual(['Check the lead', 'Is the lead in? Try another lead.', 'Mail support@example']);
+  });
+
+  it('does not replace text it has just inserted', () => {
+    const result = replaceAll(steps, plain('cable'), 'cable cable');
+    expect(result.count).toBe(3);
+    expect(texts(result.steps)[1]).toBe('Is the cable cable in? Try another cable cable.');
+  });
+
+  it('inserts $ references literally in plain searches', () => {
+    expect(texts(replaceAll(steps, plain('support'), '$&-$1').steps)[2]).toBe('Mail $&-$1@example');
+  });
+
+  it('expands groups in regular expression searches', () => {
+    const result = replaceAll(steps, regex('(\\w+)@(\\w+)'), '$2 at $1');
+    expect(result.count).toBe(1);
+    expect(texts(result.steps)[2]).toBe('Mail example at support');
+  });
+
+  it('replaces back to back matches in one text', () => {
+    const doubled: Step[] = [{ ...steps[1], title: 'aaaa' }];
+    expect(texts(replaceAll(doubled, regex('aa'), 'b').steps)).toEqual(['bb']);
+  });
+
+  it('leaves the flow alone when nothing can be replaced', () => {
+    expect(replaceAll(steps, regex('('), 'x')).toEqual({ steps, count: 0 });
+    expect(replaceAll(steps, plain(''), 'x')).toEqual({ steps, count: 0 });
+    expect(replaceAll(steps, regex('^'), 'x')).toEqual({ steps, count: 0 });
+  });
+});
+
+describe('replaceMatch', () => {
+  it('replaces only the given match', () => {
+    const [, second] = findMatches(steps, plain('cable')).matches;
+    expect(texts(replaceMatch(steps, second, plain('cable'), 'plug'))[1]).toBe('Is the plug in? Try another cable.');
+  });
+
+  it('leaves the flow alone when the match is stale', () => {
+    const [, second] = findMatches(steps, plain('cable')).matches;
+    const edited = replaceAll(steps, plain('Is the'), 'Was the').steps;
+    expect(replaceMatch(edited, second, plain('cable'), 'plug')).toBe(edited);
+
+    const removed = steps.map(step => ({ ...step, subSteps: [] }));
+    expect(replaceMatch(removed, second, plain('cable'), 'plug')).toBe(removed);
+  });
+});
@@ -0,0 +1,116 @@
+import { Step } from '../types/flow';
+
+export interface FindOptions {
+  query: string;
+  isRegex: boolean;
+  isCaseSensitive: boolean;
+}
+
+export type MatchField = 'title' | 'content';
+
+export interface FindMatch {
+  id: string;
+  stepId: string;
+  // Set on matches in sub-step content
+  subStepId?: string;
+  field: MatchField;
+  index: number;
+  length: number;
+}
+
+export interface FindResult {
+  matches: FindMatch[];
+  // Why a regular expression could not be used
+  error?: string;
+}
+
+const CONTEXT_CHARS = 30;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Plain searches become an escaped pattern, so both kinds share the matching code
+const createPattern = (options: FindOptions, flags: string): RegExp =>
+  new RegExp(options.isRegex ? options.query : escapeRegExp(options.query), `${flags}${options.isCaseSensitive ? '' : 'i'}`);
+
+// Every searchable text in flow order
+const getFields = (steps: Step[]) => steps.flatMap(step => [
+  { stepId: step.id, subStepId: undefined, field: 'title' as const, text: step.title },
+  ...step.subSteps.map(subStep => ({ stepId: step.id, subStepId: subStep.id, field: 'content' as const, text: subStep.content }))
+]);
+
+const getFieldText = (steps: Step[], match: Pick<FindMatch, 'stepId' | 'subStepId' | 'field'>) => {
+  const step = steps.find(candidate => candidate.id === match.stepId);
+  return match.field === 'title'
+    ? step?.title
+    : step?.subSteps.find(subStep => subStep.id === match.subStepId)?.content;
+};
+
+const setFieldText = (steps: Step[], match: FindMatch, text: string): Step[] => steps.map(step => {
+  if (step.id !== match.stepId) return step;
+  if (match.field === 'title') return { ...step, title: text };
+  return {
+    ...step,
+    subSteps: step.subSteps.map(subStep => (subStep.id === match.subStepId ? { ...subStep, content: text } : subStep))
+  };
+});
+
+export const findMatches = (steps: Step[], options: FindOptions): FindResult => {
+  if (!options.query) return { matches: [] };
+  let pattern: RegExp;
+  try {
+    pattern = createPattern(options, 'g');
+  } catch (error) {
+    return { matches: [], error: (error as Error).message };
+  }
+
+  const matches = getFields(steps).flatMap(({ text, ...field }) =>
+    Array.from(text.matchAll(pattern))
+      // Empty matches (e.g. from ^ or a*) have nothing to show or replace
+      .filter(match => match[0].length > 0)
+      .map(match => ({
+        ...field,
+        id: `${field.subStepId ?? field.stepId}-${field.field}-${match.index}`,
+        index: match.index!,
+        length: match[0].length
+      }))
+  );
+  return { matches };
+};
+
+// The text around a match, on one line, for the match list
+export const getMatchContext = (steps: Step[], match: FindMatch) => {
+  const text = getFieldText(steps, match) ?? '';
+  const oneLine = (part: string) => part.replace(/\s+/g, ' ');
+  const start = Math.max(0, match.index - CONTEXT_CHARS);
+  const end = match.index + match.length + CONTEXT_CHARS;
+  return {
+    before: (start > 0 ? '…' : '') + oneLine(text.slice(start, match.index)),
+    matched: oneLine(text.slice(match.index, match.index + match.length)),
+    after: oneLine(text.slice(match.index + match.length, end)) + (end < text.length ? '…' : '')
+  };
+};
+
+// Replaces one match. Regular expressions expand $1-style references in the replacement;
+// plain searches insert it as typed. Matches the text no longer contains are left alone.
+export const replaceMatch = (steps: Step[], match: FindMatch, options: FindOptions, replacement: string): Step[] => {
+  const text = getFieldText(steps, match);
+  if (text === undefined) return steps;
+  const pattern = createPattern(options, 'y');
+  pattern.lastIndex = match.index;
+  const found = pattern.exec(text);
+  if (!found || found[0].length !== match.length) return steps;
+
+  pattern.lastIndex = match.index;
+  const replaced = options.isRegex
+    ? text.replace(pattern, replacement)
+    : text.slice(0, match.index) + replacement + text.slice(match.index + match.length);
+  return setFieldText(steps, match, replaced);
+};
+
+// Matches are replaced from the end of each text, so earlier positions stay valid
+export const replaceAll = (steps: Step[], options: FindOptions, replacement: string): { steps: Step[]; count: number } => {
+  const { matches, error } = findMatches(steps, options);
+  if (error) return { steps, count: 0 };
+  const replaced = [...matches].reverse().reduce((current, match) => replaceMatch(current, match, options, replacement), steps);
+  return { steps: replaced, count: matches.length };
+};
@@ -0,0 +1,342 @@
+import { describe, expect, it } from 'vitest';
+import { Step, SubStep } from '../types/flow';
+import { advance, applyChoice, FlowResolver, replayRun, startRun, SubFlow } from './flowEngine';
+
+const subStep = (id: string, overrides: Partial<SubStep> = {}): SubStep => ({
+  id,
+  content: id,
+  successAction: 'next',
+  failureAction: 'next',
+  ...overrides
+});
+
+const step = (id: string, subSteps: SubStep[] = [], overrides: Partial<Step> = {}): Step => ({
+  id,
+  title: id,
+  type: 'normal',
+  subSteps,
+  expanded: false,
+  ...overrides
+});
+
+const resolver = (...flows: SubFlow[]): FlowResolver => flowId => flows.find(flow => flow.id === flowId);
+
+describe('applyChoice', () => {
+  it('moves to the following sub-step on success with next', () => {
+    const first = step('first', [subStep('a'), subStep('b')]);
+    expect(applyChoice([first], { step: first, subStepIndex: 0 }, 'success')).toEqual({
+      kind: 'move',
+      position: { step: first, subStepIndex: 1 }
+    });
+  });
+
+  it('falls through to the step success link after the last sub-step', () => {
+    const second = step('second', [subStep('b')]);
+    const first = step('first', [subStep('a')], { successStepId: 'second' });
+    expect(applyChoice([first, second], { step: first, subStepIndex: 0 }, 'success')).toEqual({
+      kind: 'move',
+      position: { step: second, subStepIndex: 0 }
+    });
+  });
+
+  it('falls through to the step failure link on failure with next', () => {
+    const fallback = step('fallback', [subStep('b')]);
+    const first = step('first', [subStep('a'), subStep('skipped')], { failureStepId: 'fallback' });
+    expect(applyChoice([first, fallback], { step: first, subStepIndex: 0 }, 'failure')).toEqual({
+      kind: 'move',
+      position: { step: fallback, subStepIndex: 0 }
+    });
+  });
+
+  it('jumps to the sub-step targets with goto', () => {
+    const target = step('target', [subStep('t')]);
+    const other = step('other', [subStep('o')]);
+    const first = step('first', [
+      subStep('a', { successAction: 'goto', successStepId: 'target', failureAction: 'goto', failureStepId: 'other' }),
+      subStep('skipped')
+    ], { successStepId: 'other', failureStepId: 'target' });
+    const steps = [first, target, other];
+    const position = { step: first, subStepIndex: 0 };
+
+    expect(applyChoice(steps, position, 'success')).toEqual({ kind: 'move', position: { step: target, subStepIndex: 0 } });
+    expect(applyChoice(steps, position, 'failure')).toEqual({ kind: 'move', position: { step: other, subStepIndex: 0 } });
+  });
+
+  it('ends without a terminal step when there is no link', () => {
+    const first = step('first', [subStep('a')]);
+    expect(applyChoice([first], { step: first, subStepIndex: 0 }, 'success')).toEqual({ kind: 'end' });
+    expect(applyChoice([first], { step: first, subStepIndex: 0 }, 'failure')).toEqual({ kind: 'end' });
+  });
+
+  it('ends when the link points at a missing step', () => {
+    const first = step('first', [subStep('a', { successAction: 'goto', successStepId: 'gone' })]);
+    expect(applyChoice([first], { step: first, subStepIndex: 0 }, 'success')).toEqual({ kind: 'end' });
+  });
+
+  it('ends on a target without sub-steps or a sub-flow step', () => {
+    const done = step('done', [], { type: 'success' });
+    const call = step('call', [], { type: 'subflow', subFlowId: 'child' });
+    const first = step('first', [subStep('a')], { successStepId: 'done', failureStepId: 'call' });
+    const steps = [first, done, call];
+    const position = { step: first, subStepIndex: 0 };
+
+    expect(applyChoice(steps, position, 'success')).toEqual({ kind: 'end', terminalStep: done });
+    expect(applyChoice(steps, position, 'failure')).toEqual({ kind: 'end', terminalStep: call });
+  });
+
+  it('follows the target of the chosen decision outcome', () => {
+    const yes = step('yes', [subStep('y')]);
+    const first = step('first', [
+      subStep('a', {
+        kind: 'decision',
+        outcomes: [
+          { id: 'to-yes', label: 'Yes', targetStepId: 'yes' },
+          { id: 'nowhere', label: 'No' }
+        ]
+      }),
+      subStep('skipped')
+    ], { successStepId: 'yes' });
+    const steps = [first, yes];
+    const position = { step: first, subStepIndex: 0 };
+
+    expect(applyChoice(steps, position, { outcomeId: 'to-yes' })).toEqual({ kind: 'move', position: { step: yes, subStepIndex: 0 } });
+    // Outcomes never fall through to the next sub-step or the step links
+    expect(applyChoice(steps, position, { outcomeId: 'nowhere' })).toEqual({ kind: 'end' });
+    expect(applyChoice(steps, position, { outcomeId: 'unknown' })).toEqual({ kind: 'end' });
+  });
+
+  it('routes an answered input as success', () => {
+    const target = step('target', [subStep('t')]);
+    const first = step('first', [
+      subStep('a', { kind: 'input', input: { variable: 'name', type: 'text' }, successAction: 'goto', successStepId: 'target' })
+    ], { failureStepId: 'first' });
+    expect(applyChoice([first, target], { step: first, subStepIndex: 0 }, { value: '' })).toEqual({
+      kind: 'move',
+      position: { step: target, subStepIndex: 0 }
+    });
+  });
+});
+
+describe('startRun', () => {
+  it('waits at nothing for an empty flow', () => {
+    const run = startRun([]);
+    expect(run.position).toBeUndefined();
+    expect(run.isComplete).toBe(false);
+  });
+
+  it('starts at the first step unless another is marked as the start', () => {
+    const first = step('first', [subStep('a')]);
+    const marked = step('marked', [subStep('b')], { isStart: true });
+    expect(startRun([first]).position).toEqual({ step: first, subStepIndex: 0 });
+    expect(startRun([first, marked]).position).toEqual({ step: marked, subStepIndex: 0 });
+  });
+
+  it('completes straight away on a start step without sub-steps', () => {
+    const only = step('only', [], { type: 'success' });
+    const run = startRun([only]);
+    expect(run.isComplete).toBe(true);
+    expect(run.endStep).toBe(only);
+    expect(run.history).toEqual([{ step: only, subStepIndex: 0, choice: 'success', isTerminal: true }]);
+  });
+});
+
+describe('advance', () => {
+  const done = step('done', [], { type: 'success' });
+  const failed = step('failed', [], { type: 'failure' });
+  const first = step('first', [subStep('a'), subStep('b')], { successStepId: 'done', failureStepId: 'failed' });
+  const steps = [first, done, failed];
+
+  it('records each answer and moves through the sub-steps', () => {
+    const run = advance(startRun(steps), 'success');
+    expect(run.position).toEqual({ step: first, subStepIndex: 1 });
+    expect(run.choices).toEqual(['success']);
+    expect(run.history).toEqual([{ step: first, subStepIndex: 0, choice: 'success', choiceIndex: 0 }]);
+  });
+
+  it('completes on the terminal step it reaches', () => {
+    const run = advance(advance(startRun(steps), 'success'), 'success');
+    expect(run.isComplete).toBe(true);
+    expect(run.position).toBeUndefined();
+    expect(run.endStep).toBe(done);
+    expect(run.history[run.history.length - 1]).toEqual({ step: done, subStepIndex: 0, choice: 'success', isTerminal: true });
+
+    expect(advance(startRun(steps), 'failure').endStep).toBe(failed);
+  });
+
+  it('ends on the last answered step when there is no link to follow', () => {
+    const alone = step('alone', [subStep('a')]);
+    const run = advance(startRun([alone]), 'failure');
+    expect(run.isComplete).toBe(true);
+    expect(run.endStep).toBe(alone);
+    expect(run.history).toHaveLength(1);
+  });
+
+  it('stores input values in their variable', () => {
+    const ask = step('ask', [
+      subStep('a', { kind: 'input', input: { variable: ' count ', type: 'number' } }),
+      subStep('b')
+    ]);
+    const run = advance(startRun([ask]), { value: 3 });
+    expect(run.variables).toEqual({ count: 3 });
+    expect(run.position).toEqual({ step: ask, subStepIndex: 1 });
+  });
+
+  it('returns a finished run unchanged', () => {
+    const run = advance(startRun(steps), 'failure');
+    expect(advance(run, 'success')).toBe(run);
+  });
+});
+
+describe('replayRun', () => {
+  it('rebuilds the same run from its choices', () => {
+    const ask = step('ask', [
+      subStep('a', { kind: 'input', input: { variable: 'name', type: 'text' } }),
+      subStep('b')
+    ], { successStepId: 'done' });
+    const done = step('done', [], { type: 'success' });
+    const steps = [ask, done];
+    const played = advance(advance(startRun(steps), { value: 'Ada' }), 'success');
+
+    expect(replayRun(steps, played.choices)).toEqual(played);
+    expect(replayRun(steps, played.choices.slice(0, 1))).toEqual(advance(startRun(steps), { value: 'Ada' }));
+  });
+});
+
+describe('automatic branches', () => {
+  const high = step('high', [subStep('h')]);
+  const low = step('low', [subStep('l')]);
+  const ask = step('ask', [
+    subStep('a', { kind: 'input', input: { variable: 'count', type: 'number' } }),
+    subStep('branch', {
+      kind: 'branch',
+      condition: 'count > 3',
+      successAction: 'goto',
+      successStepId: 'high',
+      failureAction: 'goto',
+      failureStepId: 'low'
+    })
+  ]);
+  const steps = [ask, high, low];
+
+  it('answers themselves from the variables', () => {
+    const highRun = advance(startRun(steps), { value: 5 });
+    expect(highRun.position).toEqual({ step: high, subStepIndex: 0 });
+    expect(highRun.history[1]).toEqual({ step: ask, subStepIndex: 1, choice: 'success' });
+
+    expect(advance(startRun(steps), { value: 2 }).position).toEqual({ step: low, subStepIndex: 0 });
+  });
+
+  it('route as failure and record the error when the condition cannot be evaluated', () => {
+    const check = step('check', [
+      subStep('branch', { kind: 'branch', condition: 'missing == 1', failureAction: 'goto', failureStepId: 'low' })
+    ]);
+    const run = startRun([check, low]);
+    expect(run.position).toEqual({ step: low, subStepIndex: 0 });
+    expect(run.history).toEqual([{ step: check, subStepIndex: 0, choice: 'failure', error: '"missing" has no value yet' }]);
+  });
+
+  it('stall once they keep looping without anything to ask', () => {
+    const ping = step('ping', [subStep('p', { kind: 'branch', condition: 'true', successAction: 'goto', successStepId: 'pong' })]);
+    const pong = step('pong', [subStep('q', { kind: 'branch', condition: 'true', successAction: 'goto', successStepId: 'ping' })]);
+    const run = startRun([ping, pong]);
+
+    expect(run.isStalled).toBe(true);
+    expect(run.isComplete).toBe(false);
+    expect(run.history).toHaveLength(100);
+    expect(advance(run, 'success')).toBe(run);
+  });
+});
+
+describe('sub-flows', () => {
+  const child: SubFlow = {
+    id: 'child',
+    name: 'Child',
+    steps: [
+      step('child-check', [subStep('c')], { successStepId: 'child-done', failureStepId: 'child-failed' }),
+      step('child-done', [], { type: 'success' }),
+      step('child-failed', [], { type: 'failure' })
+    ]
+  };
+  const call = step('call', [], { type: 'subflow', subFlowId: 'child', successStepId: 'after', failureStepId: 'recover' });
+  const after = step('after', [subStep('next')]);
+  const recover = step('recover', [subStep('fix')]);
+  const main = [step('first', [subStep('a')], { successStepId: 'call' }), call, after, recover];
+  const options = { flowId: 'main', resolveFlow: resolver(child) };
+
+  it('enter the called flow at its start step', () => {
+    const run = advance(startRun(main, options), 'success');
+    expect(run.position).toEqual({ step: child.steps[0], subStepIndex: 0 });
+    expect(run.flowId).toBe('child');
+    expect(run.flowName).toBe('Child');
+    expect(run.steps).toBe(child.steps);
+    expect(run.callStack).toHaveLength(1);
+  });
+
+  it('return to the caller success link when the sub-flow succeeds', () => {
+    const run = advance(advance(startRun(main, options), 'success'), 'success');
+    expect(run.position).toEqual({ step: after, subStepIndex: 0 });
+    expect(run.flowId).toBe('main');
+    expect(run.steps).toBe(main);
+    expect(run.callStack).toEqual([]);
+    expect(run.history.slice(1)).toEqual([
+      { step: child.steps[0], subStepIndex: 0, choice: 'success', choiceIndex: 1, flowName: 'Child' },
+      { step: call, subStepIndex: 0, choice: 'success', isSubFlowReturn: true }
+    ]);
+  });
+
+  it('return to the caller failure link when the sub-flow ends on a failure step', () => {
+    const run = advance(advance(startRun(main, options), 'success'), 'failure');
+    expect(run.position).toEqual({ step: recover, subStepIndex: 0 });
+    expect(run.history[run.history.length - 1]).toEqual({ step: call, subStepIndex: 0, choice: 'failure', isSubFlowReturn: true });
+  });
+
+  it('fail when the called flow does not exist', () => {
+    const run = advance(startRun(main, { flowId: 'main' }), 'success');
+    expect(run.position).toEqual({ step: recover, subStepIndex: 0 });
+    expect(run.history[1]).toEqual({
+      step: call,
+      subStepIndex: 0,
+      choice: 'failure',
+      isSubFlowReturn: true,
+      error: 'The called flow does not exist'
+    });
+  });
+
+  it('fail instead of calling a flow that is already running', () => {
+    const loop: SubFlow = {
+      id: 'loop',
+      name: 'Loop',
+      steps: [step('back', [], { type: 'subflow', subFlowId: 'main', failureStepId: 'loop-failed' }), step('loop-failed', [], { type: 'failure' })]
+    };
+    const caller = step('call', [], { type: 'subflow', subFlowId: 'loop', successStepId: 'after', failureStepId: 'recover' });
+    const mainFlow: SubFlow = { id: 'main', name: 'Main', steps: [caller, after, recover] };
+    const run = startRun(mainFlow.steps, { flowId: 'main', resolveFlow: resolver(mainFlow, loop) });
+
+    // Main calls Loop, which calls Main again: that call fails, Loop ends on its failure step
+    // and Main carries on at the failure link of its own call
+    expect(run.position).toEqual({ step: recover, subStepIndex: 0 });
+    expect(run.callStack).toEqual([]);
+    expect(run.history).toEqual([
+      {
+        step: loop.steps[0],
+        subStepIndex: 0,
+        choice: 'failure',
+        isSubFlowReturn: true,
+        error: '"Main" is already running, so calling it again would never end',
+        flowName: 'Loop'
+      },
+      { step: caller, subStepIndex: 0, choice: 'failure', isSubFlowReturn: true }
+    ]);
+  });
+
+  it('stall when sub-flow calls keep looping without anything to ask', () => {
+    const empty: SubFlow = { id: 'empty', name: 'Empty', steps: [] };
+    const ping = step('ping', [], { type: 'subflow', subFlowId: 'empty', successStepId: 'pong' });
+    const pong = step('pong', [], { type: 'subflow', subFlowId: 'empty', successStepId: 'ping' });
+    const run = startRun([ping, pong], { resolveFlow: resolver(empty) });
+
+    expect(run.isStalled).toBe(true);
+    expect(run.isComplete).toBe(false);
+    expect(run.callStack).toEqual([]);
+  });
+});
@@ -0,0 +1,300 @@
+import { Choice, Step, StepResult, SubStep, VariableValue } from '../types/flow';
+import { evaluateCondition } from './expression';
+
+// Headless execution of a flow, shared by the simulator, the test-case generator and
+// the editor. Runs are immutable: every call returns a new run.
+
+// A saved flow another flow can call as a sub-flow
+export interface SubFlow {
+  id: string;
+  name: string;
+  steps: Step[];
+}
+
+export type FlowResolver = (flowId: string) => SubFlow | undefined;
+
+export interface RunOptions {
+  // Id of the flow being run, so it cannot be called again from one of its sub-flows
+  flowId?: string;
+  // Looks up the flows called by sub-flow steps; without it every call fails
+  resolveFlow?: FlowResolver;
+}
+
+// The flow a run descended from, resumed at the calling step when the sub-flow ends
+interface CallFrame {
+  caller: Step;
+  steps: Step[];
+  flowId?: string;
+  flowName?: string;
+}
+
+// Where a walk through the flow currently stands
+export interface FlowPosition {
+  step: Step;
+  subStepIndex: number;
+}
+
+export type ChoiceOutcome =
+  | { kind: 'move'; position: FlowPosition }
+  // The flow ends either without a next step or on a step that has no sub-steps to answer
+  | { kind: 'end'; terminalStep?: Step };
+
+// One answered sub-step, or the terminal step the run finished on
+export interface RunHistoryEntry {
+  step: Step;
+  subStepIndex: number;
+  choice: Choice;
+  // Index of the choice this entry records; unset on automatic branches and the terminal step
+  choiceIndex?: number;
+  isTerminal?: boolean;
+  // Why an automatic branch or sub-flow call could not run (it then routes as failure)
+  error?: string;
+  // Name of the sub-flow the entry belongs to; unset in the flow the run started in
+  flowName?: string;
+  // Set on a calling step once its sub-flow ended; the choice is how the sub-flow ended
+  isSubFlowReturn?: boolean;
+}
+
+export interface FlowRun {
+  // Steps of the flow the run is currently in, which is a sub-flow while one is running
+  steps: Step[];
+  flowId?: string;
+  flowName?: string;
+  callStack: CallFrame[];
+  options: RunOptions;
+  // The sub-step waiting for an answer; unset once the run is complete or the flow is empty
+  position?: FlowPosition;
+  choices: Choice[];
+  history: RunHistoryEntry[];
+  // Values entered at input sub-steps so far
+  variables: Record<string, VariableValue>;
+  isComplete: boolean;
+  // The step the run ended on
+  endStep?: Step;
+  // Set when automatic branches kept looping without anything left to ask
+  isStalled?: boolean;
+}
+
+// Automatic branches taken in a row before a run is considered stuck in a loop
+const MAX_AUTOMATIC_BRANCHES = 100;
+
+export const getStartStep = (steps: Step[]): Step | undefined => steps.find(step => step.isStart) ?? steps[0];
+
+export const isDecision = (subStep?: SubStep) => subStep?.kind === 'decision';
+
+export const isInput = (subStep?: SubStep) => subStep?.kind === 'input';
+
+export const isBranch = (subStep?: SubStep) => subStep?.kind === 'branch';
+
+export const isSubFlowStep = (step?: Step) => step?.type === 'subflow';
+
+// Flow names along a chain of sub-flow calls that leads back to flowId, or undefined
+// when the flow never ends up calling itself
+export const findSubFlowCycle = (flowId: string, steps: Step[], resolveFlow: FlowResolver): string[] | undefined => {
+  const visited = new Set<string>();
+  const search = (flowSteps: Step[], path: string[]): string[] | undefined => {
+    for (const step of flowSteps) {
+      if (!isSubFlowStep(step) || !step.subFlowId) continue;
+      const flow = resolveFlow(step.subFlowId);
+      if (!flow) continue;
+      if (flow.id === flowId) return [...path, flow.name];
+      if (visited.has(flow.id)) continue;
+      visited.add(flow.id);
+      const cycle = search(flow.steps, [...path, flow.name]);
+      if (cycle) return cycle;
+    }
+    return undefined;
+  };
+  return search(steps, []);
+};
+
+// Every answer a sub-step offers as a button, in the order they are offered. Free text and
+// number inputs take whatever is typed, and branches answer themselves, so they offer none.
+export const getChoices = (subStep: SubStep): Choice[] => {
+  if (isDecision(subStep)) return (subStep.outcomes ?? []).map(outcome => ({ outcomeId: outcome.id }));
+  if (isInput(subStep)) {
+    return subStep.input?.type === 'choice'
+      ? (subStep.input.options ?? []).filter(value => value.trim()).map(value => ({ value }))
+      : [];
+  }
+  if (isBranch(subStep)) return [];
+  return ['success', 'failure'];
+};
+
+export const getChoiceLabel = (subStep: SubStep | undefined, choice: Choice): string => {
+  if (typeof choice === 'string') return choice;
+  if ('value' in choice) return String(choice.value) || '(empty)';
+  return subStep?.outcomes?.find(outcome => outcome.id === choice.outcomeId)?.label || 'Unknown outcome';
+};
+
+export const isSameChoice = (a: Choice, b: Choice) => {
+  if (typeof a === 'string' || typeof b === 'string') return a === b;
+  if ('value' in a || 'value' in b) return 'value' in a && 'value' in b && a.value === b.value;
+  return a.outcomeId === b.outcomeId;
+};
+
+// Applies the navigation rules to one answered sub-step: 'next' moves on to the following
+// sub-step (success) or falls through to the step-level link, 'goto' jumps to its own target.
+// A decision jumps to the target of the chosen outcome; an answered input routes as success.
+export const applyChoice = (steps: Step[], position: FlowPosition, choice: Choice): ChoiceOutcome => {
+  const { step, subStepIndex } = position;
+  const subStep = step.subSteps[subStepIndex];
+  const result: StepResult = typeof choice === 'string' ? choice : 'success';
+
+  let nextStepId: string | undefined;
+  if (typeof choice === 'object' && 'outcomeId' in choice) {
+    nextStepId = subStep.outcomes?.find(outcome => outcome.id === choice.outcomeId)?.targetStepId;
+  } else if (result === 'success') {
+    if (subStep.successAction === 'next') {
+      if (subStepIndex < step.subSteps.length - 1) {
+        return { kind: 'move', position: { step, subStepIndex: subStepIndex + 1 } };
+      }
+      nextStepId = step.successStepId;
+    } else {
+      nextStepId = subStep.successStepId;
+    }
+  } else {
+    nextStepId = subStep.failureAction === 'next' ? step.failureStepId : subStep.failureStepId;
+  }
+
+  return moveToStep(steps, nextStepId);
+};
+
+// Sub-flow steps are never answered themselves, so like steps without sub-steps they end
+// the walk through the current flow
+const moveToStep = (steps: Step[], stepId?: string): ChoiceOutcome => {
+  const nextStep = stepId ? steps.find(s => s.id === stepId) : undefined;
+  if (!nextStep) return { kind: 'end' };
+  if (nextStep.subSteps.length === 0 || isSubFlowStep(nextStep)) return { kind: 'end', terminalStep: nextStep };
+  return { kind: 'move', position: { step: nextStep, subStepIndex: 0 } };
+};
+
+export const getCurrentSubStep = (run: FlowRun) =>
+  run.position && run.position.step.subSteps[run.position.subStepIndex];
+
+const record = (run: FlowRun, entry: RunHistoryEntry): FlowRun => ({
+  ...run,
+  history: [...run.history, run.flowName ? { ...entry, flowName: run.flowName } : entry]
+});
+
+// Moves the run on from the sub-step it just left
+const follow = (run: FlowRun, from: FlowPosition, outcome: ChoiceOutcome): FlowRun =>
+  outcome.kind === 'move' ? { ...run, position: outcome.position } : arrive(run, outcome.terminalStep, from.step);
+
+// Handles the run reaching a step with nothing to answer (or no step at all after `from`):
+// sub-flow steps descend into their flow, the end of a sub-flow returns to its caller and
+// the end of the flow the run started in completes the run
+const arrive = (run: FlowRun, target: Step | undefined, from: Step): FlowRun => {
+  if (target && isSubFlowStep(target)) return enterSubFlow(run, target);
+
+  const endStep = target ?? from;
+  if (run.callStack.length > 0) return returnFromSubFlow(run, endStep.type === 'failure' ? 'failure' : 'success');
+
+  const ended = target ? record(run, { step: target, subStepIndex: 0, choice: 'success', isTerminal: true }) : run;
+  return { ...ended, position: undefined, isComplete: true, endStep };
+};
+
+// Follows the calling step's own success or failure link once its sub-flow has ended
+const leaveStep = (run: FlowRun, step: Step, result: StepResult): FlowRun => {
+  const outcome = moveToStep(run.steps, result === 'success' ? step.successStepId : step.failureStepId);
+  return outcome.kind === 'move' ? { ...run, position: outcome.position } : arrive(run, outcome.terminalStep, step);
+};
+
+// Sub-flows share the run's variables, so they can read and set what the caller asked for
+const enterSubFlow = (run: FlowRun, caller: Step): FlowRun => {
+  // Sub-flow steps linked in a loop can call each other forever without asking anything
+  const lastAnswer = run.history.map(entry => entry.choiceIndex !== undefined).lastIndexOf(true);
+  if (run.history.length - lastAnswer > MAX_AUTOMATIC_BRANCHES) {
+    return { ...run, position: { step: caller, subStepIndex: 0 }, isStalled: true };
+  }
+
+  const flow = caller.subFlowId ? run.options.resolveFlow?.(caller.subFlowId) : undefined;
+  const running = [run.flowId, ...run.callStack.map(frame => frame.flowId)];
+  const error = !flow
+    ? 'The called flow does not exist'
+    : running.includes(flow.id) ? `"${flow.name}" is already running, so calling it again would never end` : undefined;
+  if (error || !flow) {
+    const failed = record(run, { step: caller, subStepIndex: 0, choice: 'failure', isSubFlowReturn: true, error });
+    return leaveStep(failed, caller, 'failure');
+  }
+
+  const entered: FlowRun = {
+    ...run,
+    steps: flow.steps,
+    flowId: flow.id,
+    flowName: flow.name,
+    callStack: [...run.callStack, { caller, steps: run.steps, flowId: run.flowId, flowName: run.flowName }]
+  };
+  const start = getStartStep(flow.steps);
+  if (!start) return returnFromSubFlow(entered, 'success');
+  const outcome = moveToStep(flow.steps, start.id);
+  return outcome.kind === 'move' ? { ...entered, position: outcome.position } : arrive(entered, outcome.terminalStep, start);
+};
+
+// A sub-flow fails when it ends on a failure step and succeeds however else it ends
+const returnFromSubFlow = (run: FlowRun, result: StepResult): FlowRun => {
+  const frame = run.callStack[run.callStack.length - 1];
+  const resumed: FlowRun = {
+    ...run,
+    steps: frame.steps,
+    flowId: frame.flowId,
+    flowName: frame.flowName,
+    callStack: run.callStack.slice(0, -1)
+  };
+  return leaveStep(record(resumed, { step: frame.caller, subStepIndex: 0, choice: result, isSubFlowReturn: true }), frame.caller, result);
+};
+
+// Takes every automatic branch the run lands on until it reaches a sub-step for the operator
+const settle = (run: FlowRun): FlowRun => {
+  let current = run;
+  for (let taken = 0; current.position && isBranch(getCurrentSubStep(current)); taken++) {
+    if (taken >= MAX_AUTOMATIC_BRANCHES) return { ...current, isStalled: true };
+    const position = current.position;
+    const { value, error } = evaluateCondition(getCurrentSubStep(current)!.condition ?? '', current.variables);
+    const choice: StepResult = value ? 'success' : 'failure';
+    const entry: RunHistoryEntry = error ? { ...position, choice, error } : { ...position, choice };
+    current = follow(record(current, entry), position, applyChoice(current.steps, position, choice));
+  }
+  return current;
+};
+
+// Starts a run at the start step. A start step without sub-steps ends the run straight away.
+export const startRun = (steps: Step[], options: RunOptions = {}): FlowRun => {
+  const start = getStartStep(steps);
+  const run: FlowRun = {
+    steps,
+    flowId: options.flowId,
+    callStack: [],
+    options,
+    choices: [],
+    history: [],
+    variables: {},
+    isComplete: false
+  };
+  if (!start) return run;
+  const outcome = moveToStep(steps, start.id);
+  return settle(outcome.kind === 'move' ? { ...run, position: outcome.position } : arrive(run, outcome.terminalStep, start));
+};
+
+// Answers the current sub-step; a value answers an input and is stored in its variable.
+// Advancing a finished or stalled run returns it unchanged.
+export const advance = (run: FlowRun, choice: Choice): FlowRun => {
+  const position = run.position;
+  if (run.isComplete || run.isStalled || !position) return run;
+
+  const subStep = getCurrentSubStep(run);
+  const variable = isInput(subStep) ? subStep?.input?.variable.trim() : undefined;
+  const variables = variable && typeof choice === 'object' && 'value' in choice
+    ? { ...run.variables, [variable]: choice.value }
+    : run.variables;
+
+  const answered = record(
+    { ...run, variables, choices: [...run.choices, choice] },
+    { ...position, choice, choiceIndex: run.choices.length }
+  );
+  return settle(follow(answered, position, applyChoice(run.steps, position, choice)));
+};
+
+// Rebuilds a run from its choices, which is how earlier points of a run are restored
+export const replayRun = (steps: Step[], choices: Choice[], options: RunOptions = {}): FlowRun =>
+  choices.reduce(advance, startRun(steps, options));
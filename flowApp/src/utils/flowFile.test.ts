@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { Step } from '../types/flow';
+import { FLOW_FILE_VERSION, parseFlowFile, serializeFlowFile } from './flowFile';
+
+const steps: Step[] = [
+  { id: 'start', title: 'Start', type: 'normal', expanded: true, successStepId: 'done', subSteps: [
+    { id: 'check', content: 'Check it', successAction: 'next', failureAction: 'goto', failureStepId: 'start' }
+  ] },
+  { id: 'done', title: 'Done', type: 'success', expanded: false, subSteps: [] }
+];
+
+const parse = (data: unknown) => parseFlowFile(JSON.stringify(data));
+
+describe('parseFlowFile', () => {
+  it('reads back what serializeFlowFile writes', () => {
+    const result = parseFlowFile(serializeFlowFile(steps, 'Router'));
+    expect(result).toMatchObject({ ok: true, migratedFrom: undefined, warnings: [] });
+    if (result.ok) {
+      expect(result.file.version).toBe(FLOW_FILE_VERSION);
+      expect(result.file.name).toBe('Router');
+      expect(result.file.steps).toEqual(steps);
+    }
+  });
+
+  it('migrates a bare array of steps and fills the defaults older builds left out', () => {
+    const result = parse([{ id: 'old', title: 'Old step' }]);
+    expect(result).toMatchObject({ ok: true, migratedFrom: 'legacy' });
+    if (result.ok) {
+      expect(result.file.version).toBe(FLOW_FILE_VERSION);
+      expect(result.file.steps).toEqual([{ id: 'old', title: 'Old step', type: 'normal', expanded: true, subSteps: [] }]);
+    }
+  });
+
+  it('reads files without a version as 1.0', () => {
+    expect(parse({ steps })).toMatchObject({ ok: true, migratedFrom: '1.0' });
+  });
+
+  it('rejects versions it does not know', () => {
+    expect(parse({ version: '9.0', steps })).toEqual({
+      ok: false,
+      errors: [`Unsupported file version "9.0" (this app reads up to ${FLOW_FILE_VERSION})`]
+    });
+  });
+
+  it('rejects text that is not a flow file', () => {
+    const invalid = parseFlowFile('{ steps: ');
+    expect(invalid.ok).toBe(false);
+    if (!invalid.ok) expect(invalid.errors[0]).toMatch(/^File is not valid JSON/);
+
+    expect(parse({ name: 'No steps' })).toEqual({
+      ok: false,
+      errors: ['File is not a flow configuration (missing "version" and "steps")']
+    });
+  });
+
+  it('rejects step and sub-step ids used more than once', () => {
+    const result = parse({
+      version: FLOW_FILE_VERSION,
+      steps: [steps[0], { ...steps[1], id: 'start', subSteps: [{ ...steps[0].subSteps[0] }] }]
+    });
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'steps[1].id "start" is used by more than one step',
+        'steps[1].subSteps[0].id "check" is used by more than one sub-step'
+      ]
+    });
+  });
+
+  it('reports every field of the wrong type', () => {
+    const result = parse({
+      version: FLOW_FILE_VERSION,
+      steps: [{ ...steps[0], type: 'maybe', severity: 'urgent', subSteps: [{ ...steps[0].subSteps[0], successAction: 'jump' }] }]
+    });
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'steps[0].type must be one of "normal", "success", "failure", "subflow"',
+        'steps[0].severity must be one of "low", "medium", "high", "critical"',
+        'steps[0].subSteps[0].successAction must be "next" or "goto"'
+      ]
+    });
+  });
+
+  it('accepts links to missing steps with a warning', () => {
+    const result = parse({
+      version: FLOW_FILE_VERSION,
+      steps: [{
+        ...steps[0],
+        successStepId: 'gone',
+        subSteps: [{ ...steps[0].subSteps[0], failureStepId: 'missing' }]
+      }]
+    });
+    expect(result).toMatchObject({
+      ok: true,
+      warnings: [
+        'steps[0].successStepId points to unknown step "gone"',
+        'steps[0].subSteps[0].failureStepId points to unknown step "missing"'
+      ]
+    });
+  });
+
+  it('warns when more than one step is marked as the start', () => {
+    const result = parse({ version: FLOW_FILE_VERSION, steps: steps.map(step => ({ ...step, isStart: true })) });
+    expect(result).toMatchObject({ ok: true, warnings: ['2 steps are marked as start; runs begin at the first of them'] });
+  });
+});
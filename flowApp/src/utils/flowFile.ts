@@ -0,0 +1,299 @@
+import { Step } from '../types/flow';
+
+// Flow file format, see docs/flow-file-format.md for the full description.
+// Bump FLOW_FILE_VERSION and append a migration when older builds would misread a file,
+// i.e. run it differently or show it wrongly; fields they can safely ignore need no bump.
+export const FLOW_FILE_VERSION = '1.7';
+
+export interface FlowFile {
+  version: string;
+  name?: string;
+  exportedAt?: string;
+  steps: Step[];
+}
+
+export type FlowFileParseResult =
+  | { ok: true; file: FlowFile; migratedFrom?: string; warnings: string[] }
+  | { ok: false; errors: string[] };
+
+type JsonObject = Record<string, unknown>;
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (data: unknown) => unknown;
+}
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Ordered chain of upgrades; each one takes a file at `from` and returns it at `to`
+const MIGRATIONS: Migration[] = [
+  {
+    // The auto-saved localStorage value was a bare steps array
+    from: 'legacy',
+    to: '1.0',
+    migrate: data => ({ version: '1.0', steps: data })
+  },
+  {
+    // 1.1 adds the flow name and export timestamp, and fills defaults older builds could omit
+    from: '1.0',
+    to: '1.1',
+    migrate: data => {
+      const file = data as JsonObject;
+      return {
+        ...file,
+        version: '1.1',
+        steps: Array.isArray(file.steps)
+          ? file.steps.map(step => isObject(step)
+            ? { expanded: true, subSteps: [], type: 'normal', ...step }
+            : step)
+          : file.steps
+      };
+    }
+  },
+  {
+    // 1.2 adds decision sub-steps; existing sub-steps without a kind are checks
+    from: '1.1',
+    to: '1.2',
+    migrate: data => ({ ...(data as JsonObject), version: '1.2' })
+  },
+  {
+    // 1.3 adds input and branch sub-steps
+    from: '1.2',
+    to: '1.3',
+    migrate: data => ({ ...(data as JsonObject), version: '1.3' })
+  },
+  {
+    // 1.4 adds sub-flow steps
+    from: '1.3',
+    to: '1.4',
+    migrate: data => ({ ...(data as JsonObject), version: '1.4' })
+  },
+  {
+    // 1.5 renders content as Markdown and adds stored images
+    from: '1.4',
+    to: '1.5',
+    migrate: data => ({ ...(data as JsonObject), version: '1.5' })
+  },
+  {
+    // 1.6 adds step metadata
+    from: '1.5',
+    to: '1.6',
+    migrate: data => ({ ...(data as JsonObject), version: '1.6' })
+  },
+  {
+    // 1.7 adds an explicit start step
+    from: '1.6',
+    to: '1.7',
+    migrate: data => ({ ...(data as JsonObject), version: '1.7' })
+  }
+];
+
+const detectVersion = (data: unknown): string | undefined => {
+  if (Array.isArray(data)) return 'legacy';
+  if (!isObject(data)) return undefined;
+  if (typeof data.version === 'string') return data.version;
+  // Files written before the version field existed
+  return 'steps' in data ? '1.0' : undefined;
+};
+
+const STEP_TYPES = ['normal', 'success', 'failure', 'subflow'];
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+const SUB_STEP_ACTIONS = ['next', 'goto'];
+const SUB_STEP_KINDS = ['check', 'decision', 'input', 'branch'];
+const VARIABLE_TYPES = ['text', 'number', 'choice'];
+
+const validateSteps = (steps: unknown, errors: string[], warnings: string[]) => {
+  if (!Array.isArray(steps)) {
+    errors.push('"steps" must be an array');
+    return;
+  }
+
+  const stepIds = new Set<string>();
+  const subStepIds = new Set<string>();
+  const references: Array<{ path: string; targetId: string }> = [];
+
+  const checkOptionalId = (owner: JsonObject, key: string, path: string) => {
+    if (owner[key] === undefined) return;
+    if (typeof owner[key] !== 'string') {
+      errors.push(`${path}.${key} must be a string`);
+    } else if (owner[key]) {
+      references.push({ path: `${path}.${key}`, targetId: owner[key] as string });
+    }
+  };
+
+  steps.forEach((step, index) => {
+    const path = `steps[${index}]`;
+    if (!isObject(step)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    if (typeof step.id !== 'string' || !step.id) {
+      errors.push(`${path}.id must be a non-empty string`);
+    } else if (stepIds.has(step.id)) {
+      errors.push(`${path}.id "${step.id}" is used by more than one step`);
+    } else {
+      stepIds.add(step.id);
+    }
+    if (typeof step.title !== 'string') errors.push(`${path}.title must be a string`);
+    if (!STEP_TYPES.includes(step.type as string)) {
+      errors.push(`${path}.type must be one of ${STEP_TYPES.map(t => `"${t}"`).join(', ')}`);
+    }
+    if (typeof step.expanded !== 'boolean') errors.push(`${path}.expanded must be a boolean`);
+    checkOptionalId(step, 'successStepId', path);
+    checkOptionalId(step, 'failureStepId', path);
+    // Sub-flows live in the library rather than in the file, so their id is not checked here
+    if (step.subFlowId !== undefined && typeof step.subFlowId !== 'string') errors.push(`${path}.subFlowId must be a string`);
+    if (step.tags !== undefined && (!Array.isArray(step.tags) || step.tags.some(tag => typeof tag !== 'string'))) {
+      errors.push(`${path}.tags must be an array of strings`);
+    }
+    if (step.owner !== undefined && typeof step.owner !== 'string') errors.push(`${path}.owner must be a string`);
+    if (step.estimatedMinutes !== undefined
+      && (typeof step.estimatedMinutes !== 'number' || !(step.estimatedMinutes >= 0))) {
+      errors.push(`${path}.estimatedMinutes must be a non-negative number`);
+    }
+    if (step.severity !== undefined && !SEVERITIES.includes(step.severity as string)) {
+      errors.push(`${path}.severity must be one of ${SEVERITIES.map(s => `"${s}"`).join(', ')}`);
+    }
+    if (step.notes !== undefined && typeof step.notes !== 'string') errors.push(`${path}.notes must be a string`);
+    if (step.isStart !== undefined && typeof step.isStart !== 'boolean') errors.push(`${path}.isStart must be a boolean`);
+
+    if (step.position !== undefined) {
+      const position = step.position;
+      if (!isObject(position) || typeof position.x !== 'number' || typeof position.y !== 'number') {
+        errors.push(`${path}.position must be an object with numeric x and y`);
+      }
+    }
+
+    if (!Array.isArray(step.subSteps)) {
+      errors.push(`${path}.subSteps must be an array`);
+      return;
+    }
+    step.subSteps.forEach((subStep, subIndex) => {
+      const subPath = `${path}.subSteps[${subIndex}]`;
+      if (!isObject(subStep)) {
+        errors.push(`${subPath} must be an object`);
+        return;
+      }
+      if (typeof subStep.id !== 'string' || !subStep.id) {
+        errors.push(`${subPath}.id must be a non-empty string`);
+      } else if (subStepIds.has(subStep.id)) {
+        errors.push(`${subPath}.id "${subStep.id}" is used by more than one sub-step`);
+      } else {
+        subStepIds.add(subStep.id);
+      }
+      if (typeof subStep.content !== 'string') errors.push(`${subPath}.content must be a string`);
+      (['successAction', 'failureAction'] as const).forEach(key => {
+        if (!SUB_STEP_ACTIONS.includes(subStep[key] as string)) {
+          errors.push(`${subPath}.${key} must be "next" or "goto"`);
+        }
+      });
+      checkOptionalId(subStep, 'successStepId', subPath);
+      checkOptionalId(subStep, 'failureStepId', subPath);
+
+      if (subStep.kind !== undefined && !SUB_STEP_KINDS.includes(subStep.kind as string)) {
+        errors.push(`${subPath}.kind must be one of ${SUB_STEP_KINDS.map(k => `"${k}"`).join(', ')}`);
+      }
+      if (subStep.condition !== undefined && typeof subStep.condition !== 'string') {
+        errors.push(`${subPath}.condition must be a string`);
+      }
+      if (subStep.images !== undefined
+        && (!isObject(subStep.images) || Object.values(subStep.images).some(image => typeof image !== 'string'))) {
+        errors.push(`${subPath}.images must be an object of strings`);
+      }
+      if (subStep.input !== undefined) {
+        const input = subStep.input;
+        if (!isObject(input)) {
+          errors.push(`${subPath}.input must be an object`);
+        } else {
+          if (typeof input.variable !== 'string') errors.push(`${subPath}.input.variable must be a string`);
+          if (!VARIABLE_TYPES.includes(input.type as string)) {
+            errors.push(`${subPath}.input.type must be one of ${VARIABLE_TYPES.map(t => `"${t}"`).join(', ')}`);
+          }
+          if (input.options !== undefined
+            && (!Array.isArray(input.options) || input.options.some(option => typeof option !== 'string'))) {
+            errors.push(`${subPath}.input.options must be an array of strings`);
+          }
+        }
+      }
+      if (subStep.outcomes === undefined) return;
+      if (!Array.isArray(subStep.outcomes)) {
+        errors.push(`${subPath}.outcomes must be an array`);
+        return;
+      }
+      subStep.outcomes.forEach((outcome, outcomeIndex) => {
+        const outcomePath = `${subPath}.outcomes[${outcomeIndex}]`;
+        if (!isObject(outcome)) {
+          errors.push(`${outcomePath} must be an object`);
+          return;
+        }
+        if (typeof outcome.id !== 'string' || !outcome.id) errors.push(`${outcomePath}.id must be a non-empty string`);
+        if (typeof outcome.label !== 'string') errors.push(`${outcomePath}.label must be a string`);
+        checkOptionalId(outcome, 'targetStepId', outcomePath);
+      });
+    });
+  });
+
+  const startCount = steps.filter(step => isObject(step) && step.isStart === true).length;
+  if (startCount > 1) warnings.push(`${startCount} steps are marked as start; runs begin at the first of them`);
+
+  // Broken links are legal in a flow being edited, so they only warn
+  references
+    .filter(reference => !stepIds.has(reference.targetId))
+    .forEach(reference => warnings.push(`${reference.path} points to unknown step "${reference.targetId}"`));
+};
+
+// Parses, migrates and validates the text of a flow file
+export const parseFlowFile = (text: string): FlowFileParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [`File is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const originalVersion = detectVersion(data);
+  if (!originalVersion) {
+    return { ok: false, errors: ['File is not a flow configuration (missing "version" and "steps")'] };
+  }
+
+  let version = originalVersion;
+  while (version !== FLOW_FILE_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      return {
+        ok: false,
+        errors: [`Unsupported file version "${originalVersion}" (this app reads up to ${FLOW_FILE_VERSION})`]
+      };
+    }
+    data = migration.migrate(data);
+    version = migration.to;
+  }
+
+  const file = data as JsonObject;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (file.name !== undefined && typeof file.name !== 'string') errors.push('"name" must be a string');
+  if (file.exportedAt !== undefined && typeof file.exportedAt !== 'string') errors.push('"exportedAt" must be a string');
+  validateSteps(file.steps, errors, warnings);
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    file: data as FlowFile,
+    migratedFrom: originalVersion !== FLOW_FILE_VERSION ? originalVersion : undefined,
+    warnings
+  };
+};
+
+export const serializeFlowFile = (steps: Step[], name?: string): string => {
+  const file: FlowFile = {
+    version: FLOW_FILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    steps
+  };
+  return JSON.stringify(file, null, 2);
+};
@@ -0,0 +1,32 @@
+// Scores how well the query matches the text as an in-order subsequence, ignoring case and
+// spaces; undefined when it does not match. Runs of consecutive characters and matches at
+// the start of a word score higher, so "lnksu" ranks "Link success to…" first.
+export const fuzzyScore = (query: string, text: string): number | undefined => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  let score = 0;
+  let run = 0;
+  let position = 0;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return undefined;
+    run = index === position ? run + 1 : 1;
+    score += run;
+    if (index === 0 || /[^a-z0-9]/.test(haystack[index - 1])) score += 3;
+    position = index + 1;
+  }
+  // Between equal matches the shorter text is the closer one
+  return score - haystack.length / 100;
+};
+
+// Items matching the query, best match first; all items in their own order for an empty query
+export const fuzzyFilter = <T>(items: T[], query: string, getText: (item: T) => string): T[] => {
+  if (!query.trim()) return items;
+  return items
+    .map(item => ({ item, score: fuzzyScore(query, getText(item)) }))
+    .filter((match): match is { item: T; score: number } => match.score !== undefined)
+    .sort((a, b) => b.score - a.score)
+    .map(match => match.item);
+};
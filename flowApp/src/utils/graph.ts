@@ -0,0 +1,88 @@
+import { Step, StepPosition, StepResult } from '../types/flow';
+
+export const NODE_WIDTH = 200;
+export const NODE_HEIGHT = 72;
+
+const GRID_COLUMNS = 4;
+const GRID_GAP_X = 80;
+const GRID_GAP_Y = 80;
+
+// Decision outcomes are neither success nor failure
+export type EdgeKind = StepResult | 'outcome';
+
+export interface FlowEdge {
+  id: string;
+  source: string;
+  target: string;
+  kind: EdgeKind;
+  // Set when the edge comes from a sub-step 'goto' or decision instead of the step-level link
+  subStepId?: string;
+  // Set on decision outcome edges
+  outcomeId?: string;
+  label?: string;
+}
+
+// Fallback placement for steps that were never positioned on the canvas
+export const getDefaultPosition = (index: number): StepPosition => ({
+  x: 40 + (index % GRID_COLUMNS) * (NODE_WIDTH + GRID_GAP_X),
+  y: 40 + Math.floor(index / GRID_COLUMNS) * (NODE_HEIGHT + GRID_GAP_Y)
+});
+
+export const getStepPosition = (step: Step, index: number): StepPosition =>
+  step.position ?? getDefaultPosition(index);
+
+// Collects every step-level, sub-step 'goto' and decision outcome link that points at an existing step
+export const getStepEdges = (steps: Step[]): FlowEdge[] => {
+  const stepIds = new Set(steps.map(step => step.id));
+  const edges: FlowEdge[] = [];
+
+  steps.forEach(step => {
+    if (step.successStepId && stepIds.has(step.successStepId)) {
+      edges.push({ id: `${step.id}-success`, source: step.id, target: step.successStepId, kind: 'success' });
+    }
+    if (step.failureStepId && stepIds.has(step.failureStepId)) {
+      edges.push({ id: `${step.id}-failure`, source: step.id, target: step.failureStepId, kind: 'failure' });
+    }
+
+    step.subSteps.forEach(subStep => {
+      if (subStep.kind === 'decision') {
+        (subStep.outcomes ?? []).forEach(outcome => {
+          if (!outcome.targetStepId || !stepIds.has(outcome.targetStepId)) return;
+          edges.push({
+            id: `${subStep.id}-${outcome.id}`,
+            source: step.id,
+            target: outcome.targetStepId,
+            kind: 'outcome',
+            subStepId: subStep.id,
+            outcomeId: outcome.id,
+            label: outcome.label
+          });
+        });
+        return;
+      }
+
+      if (subStep.successAction === 'goto' && subStep.successStepId && stepIds.has(subStep.successStepId)) {
+        edges.push({
+          id: `${subStep.id}-success`,
+          source: step.id,
+          target: subStep.successStepId,
+          kind: 'success',
+          subStepId: subStep.id
+        });
+      }
+      // An answered input always routes as success
+      if (subStep.kind === 'input') return;
+      if (subStep.failureAction === 'goto' && subStep.failureStepId && stepIds.has(subStep.failureStepId)) {
+        edges.push({
+          id: `${subStep.id}-failure`,
+          source: step.id,
+          target: subStep.failureStepId,
+          kind: 'failure',
+          subStepId: subStep.id
+        });
+      }
+    });
+  });
+
+  return edges;
+};
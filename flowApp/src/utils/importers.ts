@@ -0,0 +1,23 @@
+import { FLOW_FILE_VERSION, FlowFileParseResult, parseFlowFile } from './flowFile';
+import { parseMermaidFlowchart } from './mermaidImport';
+
+export const IMPORT_FILE_ACCEPT = '.json,.mmd,.mermaid,.md,.markdown';
+
+// Picks the parser from the file extension; everything ends up as a flow file result
+// so the import preview handles every source the same way
+export const parseImportFile = (fileName: string, text: string): FlowFileParseResult => {
+  if (!/\.(mmd|mermaid|md|markdown)$/i.test(fileName)) {
+    return parseFlowFile(text);
+  }
+
+  const result = parseMermaidFlowchart(text);
+  if (result.errors.length > 0) {
+    return { ok: false, errors: result.errors };
+  }
+  return {
+    ok: true,
+    file: { version: FLOW_FILE_VERSION, steps: result.steps },
+    migratedFrom: 'Mermaid',
+    warnings: result.warnings
+  };
+};
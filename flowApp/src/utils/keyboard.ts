@@ -0,0 +1,4 @@
+// Single-key shortcuts must not fire while the user is typing
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
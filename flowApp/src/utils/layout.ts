@@ -0,0 +1,190 @@
+import { Step, StepPosition } from '../types/flow';
+import { NODE_WIDTH, NODE_HEIGHT, getStepEdges, getStepPosition } from './graph';
+
+export type LayoutDirection = 'TB' | 'LR';
+
+interface LayoutOptions {
+  direction?: LayoutDirection;
+  // Only these steps are moved; links to steps outside the subset are ignored
+  stepIds?: string[];
+  // Defaults to the canvas node size
+  nodeSize?: { width: number; height: number };
+}
+
+const LAYER_GAP = 80;
+const NODE_GAP = 60;
+const ORDERING_SWEEPS = 8;
+
+interface LayoutNode {
+  id: string;
+  // Virtual nodes stand in for long edges so they take part in crossing reduction
+  isVirtual: boolean;
+  layer: number;
+}
+
+// Depth-first search from each root in step order; edges that point back onto the
+// current DFS stack close a cycle (e.g. a retry) and are reversed for layering
+const breakCycles = (nodeIds: string[], edges: Array<[string, string]>): Array<[string, string]> => {
+  const outgoing = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  edges.forEach(([source, target]) => outgoing.get(source)!.push(target));
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const backEdges = new Set<string>();
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    outgoing.get(id)!.forEach(target => {
+      const targetState = state.get(target);
+      if (targetState === 'visiting') {
+        backEdges.add(`${id}->${target}`);
+      } else if (!targetState) {
+        visit(target);
+      }
+    });
+    state.set(id, 'done');
+  };
+
+  const hasIncoming = new Set(edges.map(([, target]) => target));
+  nodeIds.filter(id => !hasIncoming.has(id)).forEach(id => !state.has(id) && visit(id));
+  nodeIds.forEach(id => !state.has(id) && visit(id));
+
+  return edges.map(([source, target]) =>
+    backEdges.has(`${source}->${target}`) ? [target, source] : [source, target]
+  );
+};
+
+// Longest-path layering: every node sits one layer below its deepest predecessor
+const assignLayers = (nodeIds: string[], edges: Array<[string, string]>): Map<string, number> => {
+  const incoming = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  edges.forEach(([source, target]) => incoming.get(target)!.push(source));
+
+  const layers = new Map<string, number>();
+  const resolve = (id: string): number => {
+    const known = layers.get(id);
+    if (known !== undefined) return known;
+    const predecessors = incoming.get(id)!;
+    const layer = predecessors.length === 0 ? 0 : Math.max(...predecessors.map(resolve)) + 1;
+    layers.set(id, layer);
+    return layer;
+  };
+  nodeIds.forEach(resolve);
+
+  return layers;
+};
+
+const barycenter = (neighbours: string[], order: Map<string, number>): number | undefined => {
+  const positions = neighbours.map(id => order.get(id)).filter((p): p is number => p !== undefined);
+  if (positions.length === 0) return undefined;
+  return positions.reduce((sum, p) => sum + p, 0) / positions.length;
+};
+
+// Reorders each layer by the mean position of its neighbours in the adjacent layer,
+// alternating downward and upward sweeps to reduce edge crossings
+const orderLayers = (
+  layerNodes: string[][],
+  up: Map<string, string[]>,
+  down: Map<string, string[]>
+): string[][] => {
+  const layersCopy = layerNodes.map(layer => [...layer]);
+
+  const indexOf = () => {
+    const order = new Map<string, number>();
+    layersCopy.forEach(layer => layer.forEach((id, index) => order.set(id, index)));
+    return order;
+  };
+
+  const sortLayer = (layerIndex: number, neighbours: Map<string, string[]>) => {
+    const order = indexOf();
+    const layer = layersCopy[layerIndex];
+    const weights = new Map(layer.map((id, index) => [id, barycenter(neighbours.get(id) ?? [], order) ?? index]));
+    layer.sort((a, b) => weights.get(a)! - weights.get(b)!);
+  };
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let i = 1; i < layersCopy.length; i++) sortLayer(i, up);
+    } else {
+      for (let i = layersCopy.length - 2; i >= 0; i--) sortLayer(i, down);
+    }
+  }
+
+  return layersCopy;
+};
+
+// Computes layered positions for the given steps (or a subset of them) from their
+// step-level and sub-step links. Returns only the positions of the arranged steps.
+export const computeLayout = (steps: Step[], options: LayoutOptions = {}): Map<string, StepPosition> => {
+  const direction = options.direction ?? 'TB';
+  const subset = options.stepIds ? new Set(options.stepIds) : null;
+  const targetSteps = subset ? steps.filter(step => subset.has(step.id)) : steps;
+  const result = new Map<string, StepPosition>();
+  if (targetSteps.length === 0) return result;
+
+  const nodeIds = targetSteps.map(step => step.id);
+  const nodeSet = new Set(nodeIds);
+  const seen = new Set<string>();
+  const edges: Array<[string, string]> = [];
+  getStepEdges(steps).forEach(edge => {
+    const key = `${edge.source}->${edge.target}`;
+    if (edge.source === edge.target || seen.has(key)) return;
+    if (!nodeSet.has(edge.source) || !nodeSet.has(edge.target)) return;
+    seen.add(key);
+    edges.push([edge.source, edge.target]);
+  });
+
+  const acyclicEdges = breakCycles(nodeIds, edges);
+  const layers = assignLayers(nodeIds, acyclicEdges);
+
+  // Split edges spanning several layers into chains of virtual nodes
+  const nodes = new Map<string, LayoutNode>(
+    nodeIds.map(id => [id, { id, isVirtual: false, layer: layers.get(id)! }])
+  );
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  const link = (source: string, target: string) => {
+    down.set(source, [...(down.get(source) ?? []), target]);
+    up.set(target, [...(up.get(target) ?? []), source]);
+  };
+  acyclicEdges.forEach(([source, target], edgeIndex) => {
+    let previous = source;
+    for (let layer = layers.get(source)! + 1; layer < layers.get(target)!; layer++) {
+      const virtualId = `virtual-${edgeIndex}-${layer}`;
+      nodes.set(virtualId, { id: virtualId, isVirtual: true, layer });
+      link(previous, virtualId);
+      previous = virtualId;
+    }
+    link(previous, target);
+  });
+
+  const layerCount = Math.max(...Array.from(nodes.values()).map(node => node.layer)) + 1;
+  const layerNodes: string[][] = Array.from({ length: layerCount }, () => []);
+  nodes.forEach(node => layerNodes[node.layer].push(node.id));
+
+  const ordered = orderLayers(layerNodes, up, down);
+
+  // Layers run along the main axis; nodes within a layer are centred on the cross axis
+  const { width, height } = options.nodeSize ?? { width: NODE_WIDTH, height: NODE_HEIGHT };
+  const mainSize = direction === 'TB' ? height : width;
+  const crossSize = direction === 'TB' ? width : height;
+  const widest = Math.max(...ordered.map(layer => layer.length));
+
+  ordered.forEach((layer, layerIndex) => {
+    const offset = ((widest - layer.length) * (crossSize + NODE_GAP)) / 2;
+    layer.forEach((id, index) => {
+      if (nodes.get(id)!.isVirtual) return;
+      const main = layerIndex * (mainSize + LAYER_GAP);
+      const cross = offset + index * (crossSize + NODE_GAP);
+      result.set(id, direction === 'TB' ? { x: cross, y: main } : { x: main, y: cross });
+    });
+  });
+
+  // Anchor the arranged block at the top-left corner of the steps' current bounds
+  const currentPositions = targetSteps.map(step => getStepPosition(step, steps.indexOf(step)));
+  const originX = subset ? Math.min(...currentPositions.map(p => p.x)) : 40;
+  const originY = subset ? Math.min(...currentPositions.map(p => p.y)) : 40;
+  result.forEach((position, id) => {
+    result.set(id, { x: Math.round(position.x + originX), y: Math.round(position.y + originY) });
+  });
+
+  return result;
+};
@@ -0,0 +1,210 @@
+// A small Markdown dialect for sub-step content. It is parsed into plain data and rendered
+// as React elements, so authored content can never inject HTML into the page:
+//   # / ## / ### headings, paragraphs, - or * lists, 1. lists, > quotes, ``` code blocks,
+//   **bold**, *italic* or _italic_, `code`, [links](https://...), ![images](...) and bare URLs
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'quote'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'code'; language?: string; code: string };
+
+// Images pasted into the editor are stored on the sub-step and referenced by id
+export const IMAGE_REFERENCE_PREFIX = 'image:';
+
+const LINK_PATTERN = /^\[([^\]]+)\]\(([^)\s]+)\)/;
+const IMAGE_PATTERN = /^!\[([^\]]*)\]\(([^)\s]+)\)/;
+const URL_PATTERN = /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/;
+
+export const isSafeLink = (href: string) => /^(https?:|mailto:)/i.test(href);
+
+export const isSafeImageSource = (src: string) =>
+  /^https?:/i.test(src)
+  || /^data:image\/(png|jpe?g|gif|webp);/i.test(src)
+  || src.startsWith(IMAGE_REFERENCE_PREFIX);
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+  const push = (node: InlineNode) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const rest = text.slice(index);
+    const char = text[index];
+
+    if (char === '\n') {
+      push({ type: 'break' });
+      index++;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', index + 1);
+      if (end > index + 1) {
+        push({ type: 'code', text: text.slice(index + 1, end) });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    const image = IMAGE_PATTERN.exec(rest);
+    if (image && isSafeImageSource(image[2])) {
+      push({ type: 'image', alt: image[1], src: image[2] });
+      index += image[0].length;
+      continue;
+    }
+
+    const link = LINK_PATTERN.exec(rest);
+    if (link && isSafeLink(link[2])) {
+      push({ type: 'link', href: link[2], children: parseInline(link[1]) });
+      index += link[0].length;
+      continue;
+    }
+
+    const atWordStart = index === 0 || !/[A-Za-z0-9]/.test(text[index - 1]);
+    const url = atWordStart ? URL_PATTERN.exec(rest) : null;
+    if (url) {
+      push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+      index += url[0].length;
+      continue;
+    }
+
+    if (rest.startsWith('**')) {
+      const end = text.indexOf('**', index + 2);
+      if (end > index + 2) {
+        push({ type: 'strong', children: parseInline(text.slice(index + 2, end)) });
+        index = end + 2;
+        continue;
+      }
+    }
+
+    // Underscores inside words (snake_case names) are not emphasis
+    if ((char === '*' || (char === '_' && atWordStart)) && text[index + 1] !== ' ') {
+      const end = text.indexOf(char, index + 1);
+      if (end > index + 1 && text[end - 1] !== ' ') {
+        push({ type: 'emphasis', children: parseInline(text.slice(index + 1, end)) });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    plain += char;
+    index++;
+  }
+
+  flush();
+  return nodes;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+
+    const fence = /^\s*```\s*([\w+-]*)\s*$/.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      index++;
+      // An unclosed fence runs to the end of the content
+      while (index < lines.length && !/^\s*```\s*$/.test(lines[index])) code.push(lines[index++]);
+      blocks.push({ type: 'code', language: fence[1] || undefined, code: code.join('\n') });
+      index++;
+      continue;
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+      index++;
+      continue;
+    }
+
+    const listItem = /^\s*([-*]|\d+[.)])\s+/.exec(line);
+    if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1]);
+      const pattern = ordered ? /^\s*\d+[.)]\s+/ : /^\s*[-*]\s+/;
+      const items: InlineNode[][] = [];
+      while (index < lines.length && pattern.test(lines[index])) {
+        items.push(parseInline(lines[index].replace(pattern, '')));
+        index++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    if (/^>\s?/.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (index < lines.length && /^>\s?/.test(lines[index])) quoted.push(lines[index++].replace(/^>\s?/, ''));
+      blocks.push({ type: 'quote', children: parseInline(quoted.join('\n')) });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    index++;
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+const inlineText = (nodes: InlineNode[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text':
+    case 'code':
+      return node.text;
+    case 'image':
+      return node.alt ? `[${node.alt}]` : '[image]';
+    case 'break':
+      return ' ';
+    default:
+      return inlineText(node.children);
+  }
+}).join('');
+
+// First block of the content as plain text, for places that only have room for one line
+export const summarizeMarkdown = (source: string): string => {
+  const first = parseMarkdown(source)[0];
+  if (!first) return '';
+  if (first.type === 'code') return first.code.split('\n')[0];
+  if (first.type === 'list') return inlineText(first.items[0] ?? []);
+  return inlineText(first.children);
+};
+
+// Ids of the stored images the content still refers to
+export const getImageReferences = (source: string): string[] =>
+  Array.from(source.matchAll(/!\[[^\]]*\]\(image:([^)\s]+)\)/g), match => match[1]);
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { Step, SubStep } from '../types/flow';
+import { mergeSteps, pasteSteps } from './merge';
+
+const subStep = (id: string, overrides: Partial<SubStep> = {}): SubStep => ({
+  id,
+  content: id,
+  successAction: 'next',
+  failureAction: 'next',
+  ...overrides
+});
+
+const step = (id: string, subSteps: SubStep[] = [], overrides: Partial<Step> = {}): Step => ({
+  id,
+  title: id,
+  type: 'normal',
+  subSteps,
+  expanded: false,
+  ...overrides
+});
+
+const current = [
+  step('start', [subStep('ask')], { isStart: true, successStepId: 'done', position: { x: 0, y: 0 } }),
+  step('done', [], { type: 'success', position: { x: 300, y: 0 } })
+];
+
+describe('mergeSteps', () => {
+  it('renames colliding ids and points links at the new ids', () => {
+    const incoming = [
+      step('start', [subStep('ask', {
+        failureAction: 'goto',
+        failureStepId: 'start',
+        kind: 'decision',
+        outcomes: [{ id: 'again', label: 'Again', targetStepId: 'start' }, { id: 'on', label: 'On', targetStepId: 'extra' }]
+      })], { isStart: true, successStepId: 'extra' }),
+      step('extra')
+    ];
+    const merged = mergeSteps(current, incoming, { stepIds: ['start', 'extra'] });
+
+    expect(merged.slice(0, 2)).toEqual(current);
+    const [copy, extra] = merged.slice(2);
+    expect(new Set(merged.map(item => item.id)).size).toBe(4);
+    expect(copy.id).not.toBe('start');
+    expect(copy.subSteps[0].id).not.toBe('ask');
+    // Ids that do not collide are kept
+    expect(extra.id).toBe('extra');
+    expect(copy.successStepId).toBe('extra');
+    expect(copy.subSteps[0].failureStepId).toBe(copy.id);
+    expect(copy.subSteps[0].outcomes?.map(outcome => outcome.targetStepId)).toEqual([copy.id, 'extra']);
+    expect(copy.isStart).toBeUndefined();
+  });
+
+  it('clears links to incoming steps that were left out', () => {
+    const incoming = [
+      step('first', [subStep('s', {
+        successAction: 'goto',
+        successStepId: 'skipped',
+        kind: 'decision',
+        outcomes: [{ id: 'o', label: 'O', targetStepId: 'skipped' }]
+      })], { successStepId: 'skipped', failureStepId: 'first' }),
+      step('skipped')
+    ];
+    const [merged] = mergeSteps(current, incoming, { stepIds: ['first'] }).slice(2);
+
+    expect(merged.successStepId).toBeUndefined();
+    expect(merged.failureStepId).toBe('first');
+    expect(merged.subSteps[0].successStepId).toBeUndefined();
+    expect(merged.subSteps[0].outcomes?.[0].targetStepId).toBeUndefined();
+  });
+
+  it('links the chosen entry step from an existing step', () => {
+    const merged = mergeSteps(current, [step('done')], {
+      stepIds: ['done'],
+      entry: { fromStepId: 'start', kind: 'failure', toIncomingStepId: 'done' }
+    });
+    const added = merged[2];
+    expect(added.id).not.toBe('done');
+    expect(merged[0]).toEqual({ ...current[0], failureStepId: added.id });
+  });
+
+  it('ignores an entry step that was not chosen', () => {
+    const merged = mergeSteps(current, [step('a'), step('b')], {
+      stepIds: ['a'],
+      entry: { fromStepId: 'start', kind: 'success', toIncomingStepId: 'b' }
+    });
+    expect(merged[0]).toBe(current[0]);
+  });
+
+  it('places positioned steps to the right of the current diagram', () => {
+    const [placed] = mergeSteps(current, [step('p', [], { position: { x: 50, y: 20 } })], { stepIds: ['p'] }).slice(2);
+    expect(placed.position!.x).toBeGreaterThan(current[1].position!.x);
+    expect(placed.position!.y).toBe(20);
+  });
+});
+
+describe('pasteSteps', () => {
+  const copied = [
+    step('start', [subStep('ask', { failureAction: 'goto', failureStepId: 'done' })], {
+      isStart: true,
+      successStepId: 'other',
+      position: { x: 10, y: 10 }
+    }),
+    step('other', [], { successStepId: 'start' })
+  ];
+
+  it('gives the copies fresh ids and links them to each other', () => {
+    const { steps, pastedIds } = pasteSteps(current, copied, { keepOutsideLinks: false });
+    const [first, second] = steps.slice(2);
+
+    expect(pastedIds).toEqual([first.id, second.id]);
+    expect(new Set(steps.map(item => item.id)).size).toBe(4);
+    expect(first.subSteps[0].id).not.toBe('ask');
+    expect(first.successStepId).toBe(second.id);
+    expect(second.successStepId).toBe(first.id);
+    expect(first.isStart).toBeUndefined();
+    expect(first.position).toEqual({ x: 50, y: 50 });
+  });
+
+  it('marks copies whose title is already taken', () => {
+    const { steps } = pasteSteps(current, copied, { keepOutsideLinks: false });
+    expect(steps.slice(2).map(item => item.title)).toEqual(['start (copy)', 'other']);
+  });
+
+  it('keeps links to steps outside the copy only when asked and when they exist', () => {
+    const cleared = pasteSteps(current, copied, { keepOutsideLinks: false }).steps[2];
+    expect(cleared.subSteps[0].failureStepId).toBeUndefined();
+
+    const kept = pasteSteps(current, copied, { keepOutsideLinks: true }).steps[2];
+    expect(kept.subSteps[0].failureStepId).toBe('done');
+
+    const elsewhere = pasteSteps([], copied, { keepOutsideLinks: true }).steps[0];
+    expect(elsewhere.subSteps[0].failureStepId).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+import { Step, StepResult } from '../types/flow';
+import { NODE_WIDTH } from './graph';
+import { generateId } from './id';
+
+export interface MergeEntryPoint {
+  // Existing step whose success/failure link is pointed at the merged entry step
+  fromStepId: string;
+  kind: StepResult;
+  toIncomingStepId: string;
+}
+
+export interface MergeOptions {
+  stepIds: string[];
+  entry?: MergeEntryPoint;
+}
+
+const MERGE_GAP = 120;
+
+const createIdAllocator = (taken: Set<string>) => (id: string) => {
+  let nextId = id;
+  while (taken.has(nextId)) {
+    nextId = generateId();
+  }
+  taken.add(nextId);
+  return nextId;
+};
+
+// Appends the chosen incoming steps to the current flow. Colliding step and sub-step ids
+// are regenerated, links among the chosen steps follow the new ids, and links to
+// incoming steps that were left out are cleared.
+export const mergeSteps = (current: Step[], incoming: Step[], options: MergeOptions): Step[] => {
+  const chosenIds = new Set(options.stepIds);
+  const chosen = incoming.filter(step => chosenIds.has(step.id));
+
+  const allocateStepId = createIdAllocator(new Set(current.map(step => step.id)));
+  const allocateSubStepId = createIdAllocator(
+    new Set(current.flatMap(step => step.subSteps.map(subStep => subStep.id)))
+  );
+
+  const idMap = new Map<string, string>();
+  chosen.forEach(step => idMap.set(step.id, allocateStepId(step.id)));
+  const remap = (targetId?: string) => (targetId ? idMap.get(targetId) : undefined);
+
+  // Place positioned incoming steps to the right of the current diagram
+  const currentRight = Math.max(0, ...current.filter(step => step.position).map(step => step.position!.x + NODE_WIDTH));
+  const incomingLeft = Math.min(...chosen.filter(step => step.position).map(step => step.position!.x));
+  const offsetX = Number.isFinite(incomingLeft) ? currentRight + MERGE_GAP - incomingLeft : 0;
+
+  const merged: Step[] = chosen.map(step => ({
+    ...step,
+    id: idMap.get(step.id)!,
+    // The current flow keeps its own start step
+    isStart: undefined,
+    successStepId: remap(step.successStepId),
+    failureStepId: remap(step.failureStepId),
+    position: step.position ? { x: step.position.x + offsetX, y: step.position.y } : undefined,
+    subSteps: step.subSteps.map(subStep => ({
+      ...subStep,
+      id: allocateSubStepId(subStep.id),
+      successStepId: remap(subStep.successStepId),
+      failureStepId: remap(subStep.failureStepId),
+      outcomes: subStep.outcomes?.map(outcome => ({ ...outcome, targetStepId: remap(outcome.targetStepId) }))
+    }))
+  }));
+
+  const entry = options.entry;
+  const entryTargetId = entry ? idMap.get(entry.toIncomingStepId) : undefined;
+  const wired = entry && entryTargetId
+    ? current.map(step => {
+      if (step.id !== entry.fromStepId) return step;
+      return entry.kind === 'success'
+        ? { ...step, successStepId: entryTargetId }
+        : { ...step, failureStepId: entryTargetId };
+    })
+    : current;
+
+  return [...wired, ...merged];
+};
+
+export interface PasteOptions {
+  // Keep links to steps outside the pasted set; they are cleared anyway when the target is
+  // not in the flow being pasted into
+  keepOutsideLinks: boolean;
+}
+
+// Pasted copies are shifted so they do not hide the originals on the diagram
+const PASTE_OFFSET = 40;
+
+// Appends copies of the given steps with fresh step and sub-step ids. Links among the copies
+// point at the other copies; links to other steps are kept or cleared as asked.
+export const pasteSteps = (current: Step[], copied: Step[], options: PasteOptions): { steps: Step[]; pastedIds: string[] } => {
+  const currentIds = new Set(current.map(step => step.id));
+  const titles = new Set(current.map(step => step.title));
+  const idMap = new Map(copied.map(step => [step.id, generateId()]));
+  const remap = (targetId?: string) => {
+    if (!targetId) return undefined;
+    return idMap.get(targetId) ?? (options.keepOutsideLinks && currentIds.has(targetId) ? targetId : undefined);
+  };
+
+  const pasted: Step[] = copied.map(step => ({
+    ...step,
+    id: idMap.get(step.id)!,
+    // Copies next to their original would be indistinguishable in the step pickers
+    title: titles.has(step.title) ? `${step.title} (copy)` : step.title,
+    isStart: undefined,
+    successStepId: remap(step.successStepId),
+    failureStepId: remap(step.failureStepId),
+    position: step.position ? { x: step.position.x + PASTE_OFFSET, y: step.position.y + PASTE_OFFSET } : undefined,
+    subSteps: step.subSteps.map(subStep => ({
+      ...subStep,
+      id: generateId(),
+      successStepId: remap(subStep.successStepId),
+      failureStepId: remap(subStep.failureStepId),
+      outcomes: subStep.outcomes?.map(outcome => ({ ...outcome, targetStepId: remap(outcome.targetStepId) }))
+    }))
+  }));
+
+  return { steps: [...current, ...pasted], pastedIds: pasted.map(step => step.id) };
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Step } from '../types/flow';
+import { parseMermaidFlowchart } from './mermaidImport';
+
+const byTitle = (steps: Step[], title: string) => steps.find(step => step.title === title)!;
+
+describe('parseMermaidFlowchart', () => {
+  it('needs a flowchart header', () => {
+    expect(parseMermaidFlowchart('A --> B')).toEqual({
+      steps: [],
+      warnings: [],
+      errors: ['Line 1: expected "flowchart" or "graph" header, found "A --> B"']
+    });
+    expect(parseMermaidFlowchart('  \n%% nothing here\n').errors).toEqual(['No Mermaid flowchart found']);
+  });
+
+  it('skips statements it cannot read and keeps the rest', () => {
+    const { steps, warnings, errors } = parseMermaidFlowchart([
+      'flowchart TD',
+      '  A[Start --> B',
+      '  C --> D -->',
+      '  -- orphan'
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(steps.map(step => step.title)).toEqual(['C', 'D']);
+    expect(warnings).toEqual([
+      'Line 2: could not understand "A[Start --> B", skipped',
+      'Line 3: could not understand "-->", rest of the statement skipped',
+      'Line 4: could not understand "-- orphan", skipped'
+    ]);
+  });
+
+  it('warns about what it flattens or ignores', () => {
+    const { warnings } = parseMermaidFlowchart([
+      'graph LR',
+      '  subgraph Checks',
+      '    A --o B',
+      '  end',
+      '  A & B --> C',
+      '  style A fill:#f00',
+      '  classDef done fill:#0f0'
+    ].join('\n'));
+
+    expect(warnings).toEqual([
+      'Line 2: subgraph "Checks" was flattened into the flow',
+      'Line 3: link style "--o" is not supported and was read as a plain arrow',
+      'Line 5: "&" node groups are not supported, statement skipped: A & B --> C',
+      'Ignored 2 styling statements (classDef, style, linkStyle, click)'
+    ]);
+  });
+
+  it('reads only the first flowchart in a Markdown document', () => {
+    const markdown = ['```mermaid', 'flowchart TD', '  A --> B', '```', '', '```mermaid', 'graph TD', '  X --> Y', '```'].join('\n');
+    const { steps, warnings } = parseMermaidFlowchart(markdown);
+    expect(steps.map(step => step.title)).toEqual(['A', 'B']);
+    expect(warnings).toEqual(['Found 2 flowchart blocks; only the first one was imported']);
+  });
+
+  it('routes yes/no links to success and failure', () => {
+    const { steps, warnings } = parseMermaidFlowchart([
+      'flowchart TD',
+      '  A{"Is it #quot;on#quot;?"} -->|No| B[Escalate]',
+      '  A -- Yes --> C([Done]):::success',
+      '  class B failure'
+    ].join('\n'));
+    const question = byTitle(steps, 'Is it "on"?');
+
+    expect(warnings).toEqual([]);
+    expect(question.successStepId).toBe(byTitle(steps, 'Done').id);
+    expect(question.failureStepId).toBe(byTitle(steps, 'Escalate').id);
+    expect(question.subSteps).toHaveLength(1);
+    expect(byTitle(steps, 'Done')).toMatchObject({ type: 'success', subSteps: [] });
+    expect(byTitle(steps, 'Escalate').type).toBe('failure');
+  });
+
+  it('fills success before failure for links without a known label', () => {
+    const { steps, warnings } = parseMermaidFlowchart('flowchart TD\n  A --> B\n  A --> C');
+    expect(byTitle(steps, 'A').successStepId).toBe(byTitle(steps, 'B').id);
+    expect(byTitle(steps, 'A').failureStepId).toBe(byTitle(steps, 'C').id);
+    expect(warnings).toEqual([
+      'Line 2: link from "A" was treated as success',
+      'Line 3: link from "A" was treated as failure'
+    ]);
+  });
+
+  it('turns wider branching into a decision', () => {
+    const { steps } = parseMermaidFlowchart([
+      'flowchart TD',
+      '  Q{Which port?} -->|USB| U[USB]',
+      '  Q -->|HDMI| H[HDMI]',
+      '  Q --> O[Other]',
+      '  P{Colour?} -->|Red| R[Red]',
+      '  P -->|Blue| B[Blue]'
+    ].join('\n'));
+
+    const [port] = byTitle(steps, 'Which port?').subSteps;
+    expect(port.kind).toBe('decision');
+    expect(port.outcomes?.map(outcome => outcome.label)).toEqual(['USB', 'HDMI', 'Other']);
+    expect(port.outcomes?.map(outcome => outcome.targetStepId)).toEqual(['USB', 'HDMI', 'Other'].map(title => byTitle(steps, title).id));
+    expect(byTitle(steps, 'Which port?').successStepId).toBeUndefined();
+
+    const [colour] = byTitle(steps, 'Colour?').subSteps;
+    expect(colour.outcomes?.map(outcome => outcome.label)).toEqual(['Red', 'Blue']);
+  });
+});
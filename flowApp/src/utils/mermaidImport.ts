@@ -0,0 +1,282 @@
+import { Step, StepResult, StepType } from '../types/flow';
+import { generateId } from './id';
+
+export interface MermaidImportResult {
+  steps: Step[];
+  warnings: string[];
+  errors: string[];
+}
+
+interface MermaidNode {
+  id: string;
+  text?: string;
+}
+
+interface MermaidEdge {
+  source: string;
+  target: string;
+  label?: string;
+  line: number;
+}
+
+// Node shapes, longest openers first so '([' is not read as '('. Decisions ({}) are
+// plain steps whose yes/no links become success/failure.
+const SHAPES: Array<{ open: string; close: string }> = [
+  { open: '(((', close: ')))' },
+  { open: '((', close: '))' },
+  { open: '([', close: '])' },
+  { open: '[[', close: ']]' },
+  { open: '[(', close: ')]' },
+  { open: '{{', close: '}}' },
+  { open: '[/', close: '/]' },
+  { open: '[\\', close: '\\]' },
+  { open: '[', close: ']' },
+  { open: '(', close: ')' },
+  { open: '{', close: '}' },
+  { open: '>', close: ']' }
+];
+
+const SUCCESS_LABELS = ['yes', 'y', 'true', 'ok', 'success', 'succeeded', 'pass', 'passed', 'done', 'fixed', 'resolved'];
+const FAILURE_LABELS = ['no', 'n', 'false', 'fail', 'failed', 'failure', 'error', 'not fixed', 'unresolved'];
+
+const STYLING_KEYWORDS = ['classDef', 'style', 'linkStyle', 'click', 'direction'];
+
+const classifyLabel = (label?: string): StepResult | undefined => {
+  if (!label) return undefined;
+  const normalized = label.trim().toLowerCase();
+  if (SUCCESS_LABELS.includes(normalized)) return 'success';
+  if (FAILURE_LABELS.includes(normalized)) return 'failure';
+  // Labels written by our own exporter, e.g. "sub-step 2 failure"
+  if (/\bsuccess$/.test(normalized)) return 'success';
+  if (/\bfailure$/.test(normalized)) return 'failure';
+  return undefined;
+};
+
+const unescapeText = (text: string) => text
+  .trim()
+  .replace(/^"(.*)"$/s, '$1')
+  .replace(/^`(.*)`$/s, '$1')
+  .replace(/#quot;/g, '"')
+  .replace(/#124;/g, '|')
+  .replace(/<br\s*\/?>/gi, ' ')
+  .trim();
+
+// Pulls the first flowchart out of a Markdown document, or returns the text unchanged
+const extractFlowchart = (text: string, warnings: string[]) => {
+  const blocks = Array.from(text.matchAll(/```mermaid\s*\n([\s\S]*?)```/g)).map(match => match[1]);
+  if (blocks.length === 0) return text;
+  const flowcharts = blocks.filter(block => /^\s*(flowchart|graph)\b/m.test(block));
+  if (flowcharts.length > 1) {
+    warnings.push(`Found ${flowcharts.length} flowchart blocks; only the first one was imported`);
+  }
+  return flowcharts[0] ?? blocks[0];
+};
+
+// Reads one node reference (id plus optional shape/text) from the start of `input`
+const readNode = (input: string): { node: MermaidNode; className?: string; rest: string } | null => {
+  const idMatch = input.match(/^\s*([A-Za-z0-9_]+)/);
+  if (!idMatch) return null;
+  let rest = input.slice(idMatch[0].length);
+  const node: MermaidNode = { id: idMatch[1] };
+
+  const shape = SHAPES.find(candidate => rest.startsWith(candidate.open));
+  if (shape) {
+    const body = rest.slice(shape.open.length);
+    let end: number;
+    if (body.trimStart().startsWith('"')) {
+      const quoteStart = body.indexOf('"');
+      const quoteEnd = body.indexOf('"', quoteStart + 1);
+      if (quoteEnd === -1) return null;
+      end = body.indexOf(shape.close, quoteEnd);
+    } else {
+      end = body.indexOf(shape.close);
+    }
+    if (end === -1) return null;
+    node.text = unescapeText(body.slice(0, end));
+    rest = body.slice(end + shape.close.length);
+  }
+
+  let className: string | undefined;
+  const classMatch = rest.match(/^:::([\w-]+)/);
+  if (classMatch) {
+    className = classMatch[1];
+    rest = rest.slice(classMatch[0].length);
+  }
+
+  return { node, className, rest };
+};
+
+// Reads one link, either `-->|label|` or `-- label -->`, from the start of `input`
+const readLink = (input: string): { label?: string; unsupported?: string; rest: string } | null => {
+  const textLink = input.match(/^\s*(--|==|-\.)\s+(.+?)\s+(-{2,}|={2,}|\.+-)(>)?/);
+  if (textLink) {
+    return { label: unescapeText(textLink[2]), rest: input.slice(textLink[0].length) };
+  }
+
+  const link = input.match(/^\s*(<)?(-{2,}|={2,}|-\.+-)(>|o|x)?\s*(?:\|([^|]*)\|)?/);
+  if (!link) return null;
+  const unsupported = link[1] || link[3] === 'o' || link[3] === 'x' ? link[0].trim() : undefined;
+  return { label: link[4] !== undefined ? unescapeText(link[4]) : undefined, unsupported, rest: input.slice(link[0].length) };
+};
+
+// Converts Mermaid flowchart text into steps. Every node becomes a step; nodes with
+// outgoing links get one sub-step whose success/failure fall through to the step links,
+// or a decision sub-step with one outcome per link when they branch more than yes/no.
+export const parseMermaidFlowchart = (source: string): MermaidImportResult => {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  const text = extractFlowchart(source, warnings);
+
+  const nodes = new Map<string, MermaidNode>();
+  const edges: MermaidEdge[] = [];
+  const classes = new Map<string, string>();
+  let sawHeader = false;
+  let stylingCount = 0;
+
+  const addNode = (node: MermaidNode, className?: string) => {
+    const existing = nodes.get(node.id);
+    if (!existing) {
+      nodes.set(node.id, node);
+    } else if (node.text !== undefined) {
+      existing.text = node.text;
+    }
+    if (className) classes.set(node.id, className);
+  };
+
+  text.split('\n').forEach((rawLine, lineIndex) => {
+    const lineNumber = lineIndex + 1;
+    // Statements may be separated by ';', but not the one closing an entity such as #quot;
+    rawLine.split(/(?<!#\w+);/).forEach(part => {
+      const statement = part.replace(/%%.*$/, '').trim();
+      if (!statement) return;
+
+      if (!sawHeader) {
+        if (/^(flowchart|graph)\b/.test(statement)) {
+          sawHeader = true;
+        } else {
+          errors.push(`Line ${lineNumber}: expected "flowchart" or "graph" header, found "${statement}"`);
+        }
+        return;
+      }
+
+      const keyword = statement.split(/\s+/)[0];
+      if (keyword === 'subgraph') {
+        warnings.push(`Line ${lineNumber}: subgraph "${statement.slice(9).trim()}" was flattened into the flow`);
+        return;
+      }
+      if (keyword === 'end') return;
+      if (STYLING_KEYWORDS.includes(keyword)) {
+        stylingCount++;
+        return;
+      }
+      if (keyword === 'class') {
+        const [, ids = '', className = ''] = statement.split(/\s+/);
+        ids.split(',').forEach(id => classes.set(id, className));
+        return;
+      }
+      if (statement.includes('&')) {
+        warnings.push(`Line ${lineNumber}: "&" node groups are not supported, statement skipped: ${statement}`);
+        return;
+      }
+
+      // A chain of nodes joined by links: A --> B -->|x| C
+      const first = readNode(statement);
+      if (!first) {
+        warnings.push(`Line ${lineNumber}: could not understand "${statement}", skipped`);
+        return;
+      }
+      addNode(first.node, first.className);
+      let previous = first.node.id;
+      let rest = first.rest;
+
+      while (rest.trim()) {
+        const link = readLink(rest);
+        const next = link && readNode(link.rest);
+        if (!link || !next) {
+          warnings.push(`Line ${lineNumber}: could not understand "${rest.trim()}", rest of the statement skipped`);
+          break;
+        }
+        if (link.unsupported) {
+          warnings.push(`Line ${lineNumber}: link style "${link.unsupported}" is not supported and was read as a plain arrow`);
+        }
+        addNode(next.node, next.className);
+        edges.push({ source: previous, target: next.node.id, label: link.label, line: lineNumber });
+        previous = next.node.id;
+        rest = next.rest;
+      }
+    });
+  });
+
+  if (!sawHeader && errors.length === 0) {
+    errors.push('No Mermaid flowchart found');
+  }
+  if (errors.length > 0) return { steps: [], warnings, errors };
+
+  if (stylingCount > 0) {
+    warnings.push(`Ignored ${stylingCount} styling statement${stylingCount === 1 ? '' : 's'} (classDef, style, linkStyle, click)`);
+  }
+
+  const stepIds = new Map(Array.from(nodes.keys()).map(id => [id, generateId()]));
+
+  const steps: Step[] = Array.from(nodes.values()).map(node => {
+    const title = node.text ?? node.id;
+    const className = classes.get(node.id);
+    const type: StepType = className === 'success' || className === 'failure' ? className : 'normal';
+    const step: Step = { id: stepIds.get(node.id)!, title, type, subSteps: [], expanded: true };
+
+    const outgoing = edges.filter(edge => edge.source === node.id);
+    if (outgoing.length === 0) return step;
+
+    // More than two branches, or two named ones that are not yes/no, ask a question
+    const isQuestion = outgoing.length > 2
+      || (outgoing.length === 2 && outgoing.every(edge => edge.label) && !outgoing.some(edge => classifyLabel(edge.label)));
+    if (isQuestion) {
+      step.subSteps = [{
+        id: generateId(),
+        content: title,
+        successAction: 'next',
+        failureAction: 'next',
+        kind: 'decision',
+        outcomes: outgoing.map(edge => ({
+          id: generateId(),
+          label: edge.label ?? nodes.get(edge.target)?.text ?? edge.target,
+          targetStepId: stepIds.get(edge.target)
+        }))
+      }];
+      return step;
+    }
+
+    // Known labels claim their outcome first; unlabelled or unknown links fill the remaining slots
+    const routes: Partial<Record<StepResult, MermaidEdge>> = {};
+    const unmatched: MermaidEdge[] = [];
+    outgoing.forEach(edge => {
+      const kind = classifyLabel(edge.label);
+      if (kind && !routes[kind]) {
+        routes[kind] = edge;
+      } else {
+        unmatched.push(edge);
+      }
+    });
+    unmatched.forEach(edge => {
+      const kind: StepResult = !routes.success ? 'success' : 'failure';
+      if (edge.label || outgoing.length > 1) {
+        warnings.push(
+          `Line ${edge.line}: link${edge.label ? ` "${edge.label}"` : ''} from "${title}" was treated as ${kind}`
+        );
+      }
+      routes[kind] = edge;
+    });
+
+    step.successStepId = routes.success && stepIds.get(routes.success.target);
+    step.failureStepId = routes.failure && stepIds.get(routes.failure.target);
+    step.subSteps = [{
+      id: generateId(),
+      content: title,
+      successAction: 'next',
+      failureAction: 'next'
+    }];
+    return step;
+  });
+
+  return { steps, warnings, errors };
+};
@@ -0,0 +1,197 @@
+import { Step, StepPosition } from '../types/flow';
+import { FlowEdge, getStepEdges } from './graph';
+import { computeLayout } from './layout';
+import { summarizeMarkdown } from './markdown';
+
+export type ImageTheme = 'dark' | 'light';
+
+export interface RenderedImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+interface ThemeColors {
+  background: string;
+  node: string;
+  border: string;
+  text: string;
+  muted: string;
+}
+
+const THEMES: Record<ImageTheme, ThemeColors> = {
+  dark: { background: '#111827', node: '#1f2937', border: '#4b5563', text: '#f3f4f6', muted: '#9ca3af' },
+  light: { background: '#ffffff', node: '#f9fafb', border: '#d1d5db', text: '#1f2937', muted: '#6b7280' }
+};
+
+const SUCCESS_COLOR = '#22c55e';
+const FAILURE_COLOR = '#ef4444';
+const OUTCOME_COLOR = '#3b82f6';
+
+const WIDTH = 260;
+const PADDING = 12;
+const TITLE_HEIGHT = 24;
+const ROW_HEIGHT = 18;
+const LAYER_GAP = 80;
+const MARGIN = 40;
+const LEGEND_HEIGHT = 40;
+const LEGEND_WIDTH = 480;
+const MAX_ROW_CHARS = 38;
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+const nodeHeight = (step: Step) =>
+  PADDING * 2 + TITLE_HEIGHT + step.subSteps.length * ROW_HEIGHT;
+
+// Lays the whole flow out top-to-bottom; each layer is as tall as its tallest step
+const layoutForImage = (steps: Step[]): Map<string, StepPosition> => {
+  const base = computeLayout(steps, { nodeSize: { width: WIDTH, height: 0 } });
+  const layerYs = Array.from(new Set(Array.from(base.values()).map(p => p.y))).sort((a, b) => a - b);
+  const heights = new Map(steps.map(step => [step.id, nodeHeight(step)]));
+
+  const layerTops = new Map<number, number>();
+  let top = MARGIN;
+  layerYs.forEach(y => {
+    layerTops.set(y, top);
+    const tallest = Math.max(...steps.filter(step => base.get(step.id)?.y === y).map(step => heights.get(step.id)!));
+    top += tallest + LAYER_GAP;
+  });
+
+  const minX = Math.min(...Array.from(base.values()).map(p => p.x));
+  const positions = new Map<string, StepPosition>();
+  base.forEach((position, id) => {
+    positions.set(id, { x: position.x - minX + MARGIN, y: layerTops.get(position.y)! });
+  });
+  return positions;
+};
+
+// Where an edge leaves its step: step-level links from the bottom, sub-step gotos from
+// the sub-step's row (success and decision outcomes on the right, failure on the left)
+const edgeStart = (step: Step, position: StepPosition, edge: FlowEdge): StepPosition => {
+  if (!edge.subStepId) {
+    return {
+      x: position.x + (edge.kind === 'success' ? WIDTH / 3 : (WIDTH * 2) / 3),
+      y: position.y + nodeHeight(step)
+    };
+  }
+  const row = step.subSteps.findIndex(subStep => subStep.id === edge.subStepId);
+  return {
+    x: edge.kind === 'failure' ? position.x : position.x + WIDTH,
+    y: position.y + PADDING + TITLE_HEIGHT + row * ROW_HEIGHT + ROW_HEIGHT / 2
+  };
+};
+
+const edgePath = (from: StepPosition, to: StepPosition, edge: FlowEdge) => {
+  if (edge.subStepId) {
+    const direction = edge.kind === 'failure' ? -1 : 1;
+    return `M ${from.x} ${from.y} C ${from.x + direction * 60} ${from.y}, ${to.x} ${to.y - 60}, ${to.x} ${to.y}`;
+  }
+  const curve = Math.max(40, Math.abs(to.y - from.y) / 2);
+  return `M ${from.x} ${from.y} C ${from.x} ${from.y + curve}, ${to.x} ${to.y - curve}, ${to.x} ${to.y}`;
+};
+
+// Static rendering of the entire flow: every step with its sub-steps and every link
+export const renderFlowSvg = (steps: Step[], theme: ImageTheme): RenderedImage => {
+  const colors = THEMES[theme];
+  const positions = layoutForImage(steps);
+  const byId = new Map(steps.map(step => [step.id, step]));
+
+  const contentWidth = Math.max(LEGEND_WIDTH, ...steps.map(step => positions.get(step.id)!.x + WIDTH - MARGIN));
+  const contentHeight = Math.max(0, ...steps.map(step => positions.get(step.id)!.y + nodeHeight(step) - MARGIN));
+  const width = contentWidth + MARGIN * 2;
+  const height = contentHeight + MARGIN * 2 + LEGEND_HEIGHT;
+
+  const edges = getStepEdges(steps).map(edge => {
+    const source = byId.get(edge.source)!;
+    const from = edgeStart(source, positions.get(edge.source)!, edge);
+    const targetPosition = positions.get(edge.target)!;
+    const to = { x: targetPosition.x + WIDTH / 2, y: targetPosition.y };
+    const color = edge.kind === 'success' ? SUCCESS_COLOR : edge.kind === 'failure' ? FAILURE_COLOR : OUTCOME_COLOR;
+    const path = `<path d="${edgePath(from, to, edge)}" fill="none" stroke="${color}" stroke-width="2"`
+      + `${edge.subStepId ? ' stroke-dasharray="6 4"' : ''} marker-end="url(#arrow-${edge.kind})" />`;
+    if (!edge.label) return path;
+    const label = `<text x="${(from.x + to.x) / 2}" y="${(from.y + to.y) / 2}" font-size="12" text-anchor="middle"`
+      + ` fill="${color}">${escapeXml(truncate(edge.label, 24))}</text>`;
+    return `${path}\n${label}`;
+  });
+
+  const nodes = steps.map(step => {
+    const { x, y } = positions.get(step.id)!;
+    const border = step.type === 'success' ? SUCCESS_COLOR : step.type === 'failure' ? FAILURE_COLOR : colors.border;
+    const rows = step.subSteps.map((subStep, index) => {
+      const rowY = y + PADDING + TITLE_HEIGHT + index * ROW_HEIGHT + 13;
+      const marker = subStep.kind === 'decision' ? '◆ ' : '';
+      const text = truncate(`${index + 1}. ${marker}${summarizeMarkdown(subStep.content) || '(empty)'}`, MAX_ROW_CHARS);
+      return `<text x="${x + PADDING}" y="${rowY}" font-size="12" fill="${colors.muted}">${escapeXml(text)}</text>`;
+    });
+    return [
+      `<rect x="${x}" y="${y}" width="${WIDTH}" height="${nodeHeight(step)}" rx="8" fill="${colors.node}" stroke="${border}" stroke-width="2" />`,
+      `<text x="${x + PADDING}" y="${y + PADDING + 16}" font-size="14" font-weight="600" fill="${colors.text}">`
+        + `${escapeXml(truncate(step.title || 'Untitled step', 32))}</text>`,
+      ...rows
+    ].join('\n');
+  });
+
+  const legendY = height - MARGIN / 2 - 8;
+  const legend = [
+    `<line x1="${MARGIN}" y1="${legendY}" x2="${MARGIN + 24}" y2="${legendY}" stroke="${SUCCESS_COLOR}" stroke-width="2" />`,
+    `<text x="${MARGIN + 30}" y="${legendY + 4}" font-size="12" fill="${colors.muted}">Success</text>`,
+    `<line x1="${MARGIN + 100}" y1="${legendY}" x2="${MARGIN + 124}" y2="${legendY}" stroke="${FAILURE_COLOR}" stroke-width="2" />`,
+    `<text x="${MARGIN + 130}" y="${legendY + 4}" font-size="12" fill="${colors.muted}">Failure</text>`,
+    `<line x1="${MARGIN + 200}" y1="${legendY}" x2="${MARGIN + 224}" y2="${legendY}" stroke="${colors.muted}" stroke-width="2" stroke-dasharray="6 4" />`,
+    `<text x="${MARGIN + 230}" y="${legendY + 4}" font-size="12" fill="${colors.muted}">Sub-step go to</text>`,
+    `<line x1="${MARGIN + 340}" y1="${legendY}" x2="${MARGIN + 364}" y2="${legendY}" stroke="${OUTCOME_COLOR}" stroke-width="2" stroke-dasharray="6 4" />`,
+    `<text x="${MARGIN + 370}" y="${legendY + 4}" font-size="12" fill="${colors.muted}">Decision outcome</text>`
+  ];
+
+  const marker = (kind: string, color: string) =>
+    `<marker id="arrow-${kind}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto">`
+    + `<path d="M 0 0 L 10 5 L 0 10 z" fill="${color}" /></marker>`;
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"`
+      + ` font-family="system-ui, -apple-system, 'Segoe UI', sans-serif">`,
+    `<defs>${marker('success', SUCCESS_COLOR)}${marker('failure', FAILURE_COLOR)}${marker('outcome', OUTCOME_COLOR)}</defs>`,
+    `<rect width="100%" height="100%" fill="${colors.background}" />`,
+    ...edges,
+    ...nodes,
+    ...legend,
+    '</svg>'
+  ].join('\n');
+
+  return { svg, width, height };
+};
+
+// Rasterises an SVG rendering through an offscreen canvas
+export const renderSvgToPng = (image: RenderedImage, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml' }));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width * scale;
+      canvas.height = image.height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(img, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('SVG could not be loaded'));
+    };
+    img.src = url;
+  });
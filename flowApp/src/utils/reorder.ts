@@ -0,0 +1,11 @@
+// Moves the item with the given id next to the target, before or after it. Returns the
+// same array when either id is unknown, so callers can skip no-op updates.
+export const moveItem = <T extends { id: string }>(items: T[], id: string, targetId: string, after: boolean): T[] => {
+  const item = items.find(candidate => candidate.id === id);
+  if (!item || id === targetId) return items;
+  const rest = items.filter(candidate => candidate.id !== id);
+  const targetIndex = rest.findIndex(candidate => candidate.id === targetId);
+  if (targetIndex === -1) return items;
+  rest.splice(targetIndex + (after ? 1 : 0), 0, item);
+  return rest;
+};
@@ -0,0 +1,151 @@
+import { SessionEntry, SimulationSession } from '../types/session';
+
+export type ReportFormat = 'markdown' | 'html' | 'csv';
+
+export const REPORT_FORMATS: Array<{ id: ReportFormat; label: string; extension: string; mimeType: string }> = [
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' }
+];
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const answerOf = (entry: SessionEntry) => {
+  const answer = entry.outcomeLabel ?? (entry.value !== undefined ? String(entry.value) : entry.result);
+  return entry.isAutomatic ? `${answer} (automatic)` : answer;
+};
+
+const summaryRows = (session: SimulationSession): Array<[string, string]> => [
+  ['Flow', session.flowName],
+  ['Operator', session.operator || 'Unknown'],
+  ['Started', formatDateTime(session.startedAt)],
+  ['Ended', formatDateTime(session.endedAt)],
+  ['Duration', formatDuration(session.endedAt - session.startedAt)],
+  ['Result', session.outcome === 'completed' ? `Completed at ${session.endStepTitle ?? 'end of flow'}` : 'Abandoned']
+];
+
+// Notes belong to steps, so they are printed after the last sub-step of each visit
+const notesAfter = (session: SimulationSession, index: number) => {
+  const entry = session.entries[index];
+  const next = session.entries[index + 1];
+  if (next && next.stepId === entry.stepId) return undefined;
+  return session.notes[entry.stepId]?.trim() || undefined;
+};
+
+const toMarkdown = (session: SimulationSession) => {
+  const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const lines = [
+    `# Simulation report: ${session.flowName}`,
+    '',
+    ...summaryRows(session).map(([label, value]) => `- **${label}:** ${value}`),
+    '',
+    '| # | Step | Sub-step | Result | Time spent |',
+    '|---|------|----------|--------|------------|',
+    ...session.entries.map((entry, index) =>
+      `| ${index + 1} | ${escapeCell(entry.stepTitle)} | ${entry.subStepIndex + 1}. ${escapeCell(entry.subStepContent)} `
+      + `| ${escapeCell(answerOf(entry))} | ${formatDuration(entry.endedAt - entry.startedAt)} |`
+    )
+  ];
+
+  const notes = Object.entries(session.notes).filter(([, note]) => note.trim());
+  if (notes.length > 0) {
+    lines.push('', '## Notes', '');
+    notes.forEach(([stepId, note]) => {
+      const title = session.entries.find(entry => entry.stepId === stepId)?.stepTitle ?? stepId;
+      lines.push(`**${title}:** ${note.trim()}`, '');
+    });
+  }
+
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const toHtml = (session: SimulationSession) => {
+  const rows = session.entries.map((entry, index) => {
+    const note = notesAfter(session, index);
+    return [
+      '<tr>',
+      `<td>${index + 1}</td>`,
+      `<td>${escapeHtml(entry.stepTitle)}</td>`,
+      `<td>${entry.subStepIndex + 1}. ${escapeHtml(entry.subStepContent)}</td>`,
+      `<td class="${entry.result}">${escapeHtml(answerOf(entry))}</td>`,
+      `<td>${formatDuration(entry.endedAt - entry.startedAt)}</td>`,
+      '</tr>',
+      note ? `<tr><td></td><td colspan="4" class="note">Note: ${escapeHtml(note)}</td></tr>` : ''
+    ].join('');
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Simulation report: ${escapeHtml(session.flowName)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.6rem; text-align: left; }
+  th { background: #f3f4f6; }
+  .success { color: #16a34a; }
+  .failure { color: #dc2626; }
+  .outcome { color: #2563eb; }
+  .note { font-style: italic; color: #4b5563; }
+</style>
+</head>
+<body>
+<h1>Simulation report: ${escapeHtml(session.flowName)}</h1>
+<ul>
+${summaryRows(session).map(([label, value]) => `  <li><strong>${label}:</strong> ${escapeHtml(value)}</li>`).join('\n')}
+</ul>
+<table>
+<thead><tr><th>#</th><th>Step</th><th>Sub-step</th><th>Result</th><th>Time spent</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+};
+
+const toCsv = (session: SimulationSession) => {
+  const cell = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const header = ['#', 'Step', 'Sub-step #', 'Sub-step', 'Result', 'Started', 'Ended', 'Seconds', 'Notes'];
+  const rows = session.entries.map((entry, index) => [
+    index + 1,
+    entry.stepTitle,
+    entry.subStepIndex + 1,
+    entry.subStepContent,
+    answerOf(entry),
+    new Date(entry.startedAt).toISOString(),
+    new Date(entry.endedAt).toISOString(),
+    Math.round((entry.endedAt - entry.startedAt) / 1000),
+    notesAfter(session, index) ?? ''
+  ]);
+  return [header, ...rows].map(row => row.map(cell).join(',')).join('\n');
+};
+
+export const renderSessionReport = (session: SimulationSession, format: ReportFormat): string => {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(session);
+    case 'html':
+      return toHtml(session);
+    case 'csv':
+      return toCsv(session);
+  }
+};
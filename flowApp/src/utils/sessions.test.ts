@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionEntry, SimulationSession } from '../types/session';
+import { addSession, loadSessions, MAX_SESSIONS, saveSessions } from './sessions';
+
+const entry = (stepId: string, startedAt: number, endedAt: number, overrides: Partial<SessionEntry> = {}): SessionEntry => ({
+  stepId,
+  stepTitle: stepId,
+  subStepIndex: 0,
+  subStepContent: '',
+  result: 'success',
+  startedAt,
+  endedAt,
+  ...overrides
+});
+
+const session = (id: string, entries: SessionEntry[] = []): SimulationSession => ({
+  id,
+  flowId: 'flow',
+  flowName: 'Flow',
+  operator: '',
+  startedAt: 1000,
+  endedAt: 5000,
+  outcome: 'completed',
+  entries,
+  notes: {}
+});
+
+describe('sessions storage', () => {
+  let stored: Map<string, string>;
+
+  beforeEach(() => {
+    stored = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value)
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('loads saved sessions back as they were recorded', () => {
+    const sessions = [session('run', [
+      entry('first', 1000, 2500, { subStepId: 'a', subStepContent: 'Check the cable' }),
+      entry('first', 2500, 2500, { subStepId: 'b', subStepIndex: 1, result: 'failure', isAutomatic: true }),
+      entry('pick', 2500, 4000, { subStepId: 'c', result: 'outcome', outcomeId: 'o', outcomeLabel: 'Other' }),
+      entry('ask', 4000, 4800, { subStepId: 'd', value: 0 })
+    ])];
+    expect(saveSessions(sessions)).toBe(true);
+    expect(loadSessions()).toEqual(sessions);
+  });
+
+  it('shortens long sub-step summaries in the stored trace', () => {
+    saveSessions([session('run', [entry('first', 1000, 2000, { subStepContent: 'x'.repeat(500) })])]);
+    expect(loadSessions()[0].entries[0].subStepContent).toHaveLength(120);
+  });
+
+  it('still loads sessions stored with their full entries', () => {
+    const legacy = [session('old', [entry('first', 1000, 2000, { subStepId: 'a' })])];
+    stored.set('flowSimulationSessions', JSON.stringify(legacy));
+    expect(loadSessions()).toEqual(legacy);
+  });
+
+  it('reports a save the browser refused', () => {
+    vi.stubGlobal('localStorage', {
+      getItem: () => null,
+      setItem: () => {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      }
+    });
+    expect(saveSessions([session('run')])).toBe(false);
+  });
+});
+
+describe('addSession', () => {
+  it('drops the oldest sessions beyond the limit', () => {
+    const sessions = Array.from({ length: MAX_SESSIONS }, (_, index) => session(`run-${index}`));
+    const kept = addSession(sessions, session('newest'));
+    expect(kept).toHaveLength(MAX_SESSIONS);
+    expect(kept[0].id).toBe('run-1');
+    expect(kept[kept.length - 1].id).toBe('newest');
+  });
+});
@@ -0,0 +1,96 @@
+import { VariableValue } from '../types/flow';
+import { SessionEntry, SimulationSession } from '../types/session';
+import { writeStorage } from './storage';
+
+const SESSIONS_STORAGE_KEY = 'flowSimulationSessions';
+const OPERATOR_STORAGE_KEY = 'flowSimulationOperator';
+
+// Runs kept across all flows; recording another one drops the oldest
+export const MAX_SESSIONS = 200;
+
+// Longest sub-step summary kept in a stored trace
+const MAX_STORED_CONTENT = 120;
+
+// A trace entry as stored: short keys, defaults left out and the end time as an offset from
+// the start of the run. An entry starts when the one before it ended (see FlowSimulation),
+// so its start is not stored at all.
+interface StoredEntry {
+  s: string;
+  t: string;
+  u?: string;
+  i?: number;
+  c?: string;
+  r: SessionEntry['result'];
+  o?: string;
+  l?: string;
+  v?: VariableValue;
+  a?: 1;
+  e: number;
+}
+
+type StoredSession = Omit<SimulationSession, 'entries'> & { trace: StoredEntry[] };
+
+const compactSession = ({ entries, ...session }: SimulationSession): StoredSession => ({
+  ...session,
+  trace: entries.map(entry => {
+    const stored: StoredEntry = { s: entry.stepId, t: entry.stepTitle, r: entry.result, e: entry.endedAt - session.startedAt };
+    if (entry.subStepId) stored.u = entry.subStepId;
+    if (entry.subStepIndex) stored.i = entry.subStepIndex;
+    if (entry.subStepContent) {
+      stored.c = entry.subStepContent.length > MAX_STORED_CONTENT
+        ? `${entry.subStepContent.slice(0, MAX_STORED_CONTENT - 1)}…`
+        : entry.subStepContent;
+    }
+    if (entry.outcomeId) stored.o = entry.outcomeId;
+    if (entry.outcomeLabel) stored.l = entry.outcomeLabel;
+    if (entry.value !== undefined) stored.v = entry.value;
+    if (entry.isAutomatic) stored.a = 1;
+    return stored;
+  })
+});
+
+// Sessions recorded before traces were compacted are stored with their entries as they are
+const expandSession = (stored: StoredSession | SimulationSession): SimulationSession => {
+  if (!('trace' in stored)) return stored;
+  const { trace, ...session } = stored;
+  let previousAt = session.startedAt;
+  const entries = trace.map(item => {
+    const entry: SessionEntry = {
+      stepId: item.s,
+      stepTitle: item.t,
+      subStepId: item.u,
+      subStepIndex: item.i ?? 0,
+      subStepContent: item.c ?? '',
+      result: item.r,
+      startedAt: previousAt,
+      endedAt: session.startedAt + item.e
+    };
+    if (item.o) entry.outcomeId = item.o;
+    if (item.l) entry.outcomeLabel = item.l;
+    if (item.v !== undefined) entry.value = item.v;
+    if (item.a) entry.isAutomatic = true;
+    previousAt = entry.endedAt;
+    return entry;
+  });
+  return { ...session, entries };
+};
+
+export const loadSessions = (): SimulationSession[] => {
+  const saved = localStorage.getItem(SESSIONS_STORAGE_KEY);
+  return saved ? (JSON.parse(saved) as Array<StoredSession | SimulationSession>).slice(-MAX_SESSIONS).map(expandSession) : [];
+};
+
+// False when storage is full
+export const saveSessions = (sessions: SimulationSession[]): boolean =>
+  writeStorage(SESSIONS_STORAGE_KEY, JSON.stringify(sessions.map(compactSession)));
+
+// Sessions are kept oldest first
+export const addSession = (sessions: SimulationSession[], session: SimulationSession): SimulationSession[] =>
+  [...sessions, session].slice(-MAX_SESSIONS);
+
+// The operator name is remembered between runs so it does not need retyping
+export const loadOperatorName = () => localStorage.getItem(OPERATOR_STORAGE_KEY) ?? '';
+
+export const saveOperatorName = (name: string) => {
+  writeStorage(OPERATOR_STORAGE_KEY, name);
+};
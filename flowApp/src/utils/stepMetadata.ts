@@ -0,0 +1,77 @@
+import { Step, StepSeverity } from '../types/flow';
+import { FlowRun, RunHistoryEntry } from './flowEngine';
+
+export type StepMetadata = Pick<Step, 'tags' | 'owner' | 'estimatedMinutes' | 'severity' | 'notes'>;
+
+export const SEVERITIES: Array<{ id: StepSeverity; label: string }> = [
+  { id: 'low', label: 'Low' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'high', label: 'High' },
+  { id: 'critical', label: 'Critical' }
+];
+
+// Tailwind needs the full class names, so the colour maps below spell each one out
+export const SEVERITY_STYLES: Record<StepSeverity, string> = {
+  low: 'bg-gray-500/20 text-gray-500',
+  medium: 'bg-yellow-500/20 text-yellow-600',
+  high: 'bg-orange-500/20 text-orange-600',
+  critical: 'bg-red-500/20 text-red-600'
+};
+
+// Answers on the simulator's path: checks by result, decisions and inputs by kind
+export const CHOICE_STYLES = {
+  success: { border: 'border-green-500', line: 'bg-green-500', arrow: 'border-l-green-500' },
+  failure: { border: 'border-red-500', line: 'bg-red-500', arrow: 'border-l-red-500' },
+  outcome: { border: 'border-blue-500', line: 'bg-blue-500', arrow: 'border-l-blue-500' },
+  input: { border: 'border-purple-500', line: 'bg-purple-500', arrow: 'border-l-purple-500' }
+};
+
+export interface StepFilter {
+  tag?: string;
+  owner?: string;
+}
+
+const sortedUnique = (values: string[]) =>
+  Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+
+export const getStepTags = (steps: Step[]): string[] =>
+  sortedUnique(steps.flatMap(step => step.tags ?? []));
+
+export const getStepOwners = (steps: Step[]): string[] =>
+  sortedUnique(steps.map(step => step.owner?.trim() ?? '').filter(Boolean));
+
+export const isStepFilterActive = (filter: StepFilter) => Boolean(filter.tag || filter.owner);
+
+export const matchesStepFilter = (step: Step, filter: StepFilter) =>
+  (!filter.tag || (step.tags ?? []).includes(filter.tag))
+  && (!filter.owner || step.owner?.trim() === filter.owner);
+
+// Tags differing only in case are the same tag; the first spelling wins
+export const addTag = (tags: string[], tag: string): string[] => {
+  const trimmed = tag.trim();
+  if (!trimmed || tags.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) return tags;
+  return [...tags, trimmed];
+};
+
+export const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+};
+
+// Consecutive entries on the same step belong to one visit; a step counts again when the
+// run loops back to it
+const isNewVisit = (previous: RunHistoryEntry | undefined, entry: RunHistoryEntry) =>
+  !previous
+  || previous.step.id !== entry.step.id
+  || previous.flowName !== entry.flowName
+  || entry.subStepIndex <= previous.subStepIndex;
+
+// Sum of the estimates of every step visited so far, including the one waiting for an answer
+export const estimateRunMinutes = (run: FlowRun): number => {
+  const entries = run.position
+    ? [...run.history, { ...run.position, choice: 'success' as const, flowName: run.flowName }]
+    : run.history;
+  return entries.reduce((total, entry, index) =>
+    isNewVisit(entries[index - 1], entry) ? total + (entry.step.estimatedMinutes ?? 0) : total, 0);
+};
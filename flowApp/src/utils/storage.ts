@@ -0,0 +1,10 @@
+// Writes one localStorage entry. Returns false when the browser refuses it, which in
+// practice means the site's storage is full (images in sub-steps fill it up quickest).
+export const writeStorage = (key: string, value: string): boolean => {
+  try {
+    localStorage.setItem(key, value);
+    return true;
+  } catch {
+    return false;
+  }
+};
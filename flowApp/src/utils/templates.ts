@@ -0,0 +1,133 @@
+import { Step, SubStep } from '../types/flow';
+import { StepTemplate } from '../types/template';
+import { generateId } from './id';
+import { pasteSteps } from './merge';
+import { writeStorage } from './storage';
+
+const TEMPLATES_STORAGE_KEY = 'flowStepTemplates';
+
+// [[name]] rather than {{name}}, which is a flow variable filled in while simulating
+const PARAMETER_PATTERN = /\[\[\s*([^[\]]+?)\s*\]\]/g;
+
+const subStep = (id: string, content: string, extra: Partial<SubStep> = {}): SubStep => ({
+  id,
+  content,
+  successAction: 'next',
+  failureAction: 'next',
+  ...extra
+});
+
+const step = (id: string, title: string, subSteps: SubStep[], extra: Partial<Step> = {}): Step => ({
+  id,
+  title,
+  type: 'normal',
+  subSteps,
+  expanded: true,
+  ...extra
+});
+
+export const BUILT_IN_TEMPLATES: StepTemplate[] = [
+  {
+    id: 'built-in-cable-retry-escalate',
+    name: 'Check cable, retry, escalate',
+    description: 'Rule out a loose cable, retry the action, and hand over to another team when it still fails.',
+    builtIn: true,
+    steps: [
+      step('cable', 'Check the [[device]] cable', [
+        subStep('cable-1', 'Make sure the [[device]] cable is plugged in firmly at both ends.'),
+        subStep('cable-2', 'Is the cable undamaged?')
+      ], { successStepId: 'retry', failureStepId: 'escalate' }),
+      step('retry', 'Retry [[action]]', [
+        subStep('retry-1', 'Try to [[action]] again. Does it work now?')
+      ], { successStepId: 'resolved', failureStepId: 'escalate' }),
+      step('resolved', 'Resolved', [], { type: 'success' }),
+      step('escalate', 'Escalate to [[team]]', [], { type: 'failure' })
+    ]
+  },
+  {
+    id: 'built-in-login-reset-lock',
+    name: 'Verify login, reset password, lock account',
+    description: 'Check that the user can sign in, reset their password if not, and lock the account as a last resort.',
+    builtIn: true,
+    steps: [
+      step('verify', 'Verify [[system]] login', [
+        subStep('verify-1', 'Can the user sign in to [[system]]?')
+      ], { successStepId: 'works', failureStepId: 'reset' }),
+      step('reset', 'Reset the [[system]] password', [
+        subStep('reset-1', 'Send a password reset link to the email address on file.'),
+        subStep('reset-2', 'Can the user sign in with the new password?')
+      ], { successStepId: 'works', failureStepId: 'lock' }),
+      step('works', 'Login works', [], { type: 'success' }),
+      step('lock', 'Lock the [[system]] account and notify [[team]]', [], { type: 'failure', severity: 'high' })
+    ]
+  },
+  {
+    id: 'built-in-approval',
+    name: 'Approval',
+    description: 'Ask for approval, with a loop for when the approver needs more information.',
+    builtIn: true,
+    steps: [
+      step('request', 'Request approval for [[request]]', [
+        subStep('request-1', 'Did [[approver]] approve [[request]]?', {
+          kind: 'decision',
+          outcomes: [
+            { id: 'approved', label: 'Approved', targetStepId: 'approved' },
+            { id: 'rejected', label: 'Rejected', targetStepId: 'rejected' },
+            { id: 'more-info', label: 'Needs more information', targetStepId: 'info' }
+          ]
+        })
+      ]),
+      step('info', 'Provide more information', [
+        subStep('info-1', 'Send [[approver]] the details they asked for.')
+      ], { successStepId: 'request' }),
+      step('approved', 'Approved', [], { type: 'success' }),
+      step('rejected', 'Rejected', [], { type: 'failure' })
+    ]
+  }
+];
+
+export const loadTemplates = (): StepTemplate[] => {
+  const saved = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+};
+
+// False when storage is full
+export const saveTemplates = (templates: StepTemplate[]): boolean =>
+  writeStorage(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+
+// Templates keep the steps' content and internal links; links to steps left out of the
+// template, the start marker and diagram positions belong to the flow they came from
+export const createTemplate = (name: string, description: string, steps: Step[]): StepTemplate => ({
+  id: generateId(),
+  name,
+  description,
+  createdAt: Date.now(),
+  steps: pasteSteps([], steps, { keepOutsideLinks: false }).steps.map(copy => ({ ...copy, position: undefined }))
+});
+
+const templateTexts = (steps: Step[]): string[] => steps.flatMap(templateStep => [
+  templateStep.title,
+  templateStep.notes ?? '',
+  ...templateStep.subSteps.flatMap(sub => [sub.content, ...(sub.outcomes ?? []).map(outcome => outcome.label)])
+]);
+
+// Parameter names in order of first use
+export const getTemplateParameters = (template: StepTemplate): string[] =>
+  Array.from(new Set(templateTexts(template.steps).flatMap(text =>
+    Array.from(text.matchAll(PARAMETER_PATTERN), match => match[1])
+  )));
+
+export const fillParameters = (text: string, values: Record<string, string>): string =>
+  text.replace(PARAMETER_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+export const fillTemplate = (template: StepTemplate, values: Record<string, string>): Step[] =>
+  template.steps.map(templateStep => ({
+    ...templateStep,
+    title: fillParameters(templateStep.title, values),
+    notes: templateStep.notes !== undefined ? fillParameters(templateStep.notes, values) : undefined,
+    subSteps: templateStep.subSteps.map(sub => ({
+      ...sub,
+      content: fillParameters(sub.content, values),
+      outcomes: sub.outcomes?.map(outcome => ({ ...outcome, label: fillParameters(outcome.label, values) }))
+    }))
+  }));
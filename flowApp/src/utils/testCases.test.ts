@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { Step, SubStep } from '../types/flow';
+import { enumeratePaths, replayTestCase, TestCase } from './testCases';
+
+const subStep = (id: string, overrides: Partial<SubStep> = {}): SubStep => ({
+  id,
+  content: id,
+  successAction: 'next',
+  failureAction: 'next',
+  ...overrides
+});
+
+const step = (id: string, subSteps: SubStep[] = [], overrides: Partial<Step> = {}): Step => ({
+  id,
+  title: id,
+  type: 'normal',
+  subSteps,
+  expanded: false,
+  ...overrides
+});
+
+const done = step('done', [], { type: 'success' });
+const failed = step('failed', [], { type: 'failure' });
+const simple = [step('check', [subStep('a')], { successStepId: 'done', failureStepId: 'failed' }), done, failed];
+
+// Fails back to the start until it succeeds
+const retry = [step('try', [subStep('t', { failureAction: 'goto', failureStepId: 'try' })], { successStepId: 'done' }), done];
+
+describe('enumeratePaths', () => {
+  it('records one case per way of reaching the end', () => {
+    const { testCases, cutLoops, truncated } = enumeratePaths(simple);
+    expect(testCases).toEqual([
+      { id: 'TC-1', choices: ['success'], stepTitles: ['check'], choiceLabels: ['success'], expectedEndStepId: 'done', expectedEndStepTitle: 'done' },
+      { id: 'TC-2', choices: ['failure'], stepTitles: ['check'], choiceLabels: ['failure'], expectedEndStepId: 'failed', expectedEndStepTitle: 'failed' }
+    ]);
+    expect(cutLoops).toBe(0);
+    expect(truncated).toBe(false);
+  });
+
+  it('tries every outcome of a decision', () => {
+    const steps = [
+      step('pick', [subStep('p', {
+        kind: 'decision',
+        outcomes: [
+          { id: 'one', label: 'One', targetStepId: 'done' },
+          { id: 'two', label: 'Two', targetStepId: 'failed' },
+          { id: 'three', label: 'Three' }
+        ]
+      })]),
+      done,
+      failed
+    ];
+    const { testCases } = enumeratePaths(steps);
+    expect(testCases.map(testCase => testCase.choiceLabels)).toEqual([['One'], ['Two'], ['Three']]);
+    expect(testCases.map(testCase => testCase.expectedEndStepId)).toEqual(['done', 'failed', 'pick']);
+  });
+
+  it('finds nothing in a flow that ends before asking anything', () => {
+    expect(enumeratePaths([done]).testCases).toEqual([]);
+    expect(enumeratePaths([]).testCases).toEqual([]);
+  });
+
+  it('goes round a loop at most loopBound extra times', () => {
+    const once = enumeratePaths(retry, { loopBound: 0 });
+    expect(once.testCases.map(testCase => testCase.choices)).toEqual([['success']]);
+    expect(once.cutLoops).toBe(1);
+
+    const twice = enumeratePaths(retry, { loopBound: 1 });
+    expect(twice.testCases.map(testCase => testCase.choices)).toEqual([['success'], ['failure', 'success']]);
+    expect(twice.cutLoops).toBe(1);
+  });
+
+  it('stops at maxPaths cases', () => {
+    const result = enumeratePaths(retry, { loopBound: 5, maxPaths: 2 });
+    expect(result.testCases).toHaveLength(2);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('stops after maxNodes answers in flows that loop without ending', () => {
+    // Every step goes on to the next on success and back to the first on failure, and the
+    // last one goes round again, so no path ever ends
+    const steps = Array.from({ length: 12 }, (_, index) => step(`s${index}`, [subStep(`c${index}`, {
+      successAction: 'goto',
+      successStepId: `s${(index + 1) % 12}`,
+      failureAction: 'goto',
+      failureStepId: 's0'
+    })]));
+    const limited = enumeratePaths(steps, { loopBound: 3, maxNodes: 1000 });
+    expect(limited.testCases).toEqual([]);
+    expect(limited.truncated).toBe(true);
+    expect(limited.cutLoops).toBeGreaterThan(0);
+
+    expect(enumeratePaths(steps, { loopBound: 3 }).truncated).toBe(true);
+  });
+});
+
+describe('replayTestCase', () => {
+  const testCase = (choices: TestCase['choices'], expectedEndStepId: string): TestCase => ({
+    id: 'TC-1',
+    choices,
+    stepTitles: [],
+    choiceLabels: [],
+    expectedEndStepId,
+    expectedEndStepTitle: expectedEndStepId
+  });
+
+  it('passes every generated case against the flow it came from', () => {
+    enumeratePaths(retry, { loopBound: 2 }).testCases.forEach(generated => {
+      expect(replayTestCase(retry, generated)).toEqual({ passed: true, actualEndStepTitle: 'done' });
+    });
+  });
+
+  it('fails when the flow ends somewhere else', () => {
+    expect(replayTestCase(simple, testCase(['failure'], 'done'))).toEqual({
+      passed: false,
+      actualEndStepTitle: 'failed',
+      message: 'Ended at "failed"'
+    });
+  });
+
+  it('fails when the flow ends before every choice is used', () => {
+    expect(replayTestCase(simple, testCase(['success', 'success'], 'done'))).toEqual({
+      passed: false,
+      actualEndStepTitle: 'done',
+      message: 'Flow ended after 1 of 2 choices'
+    });
+  });
+
+  it('fails when the flow still waits for an answer', () => {
+    expect(replayTestCase(retry, testCase(['failure'], 'done'))).toEqual({
+      passed: false,
+      actualEndStepTitle: undefined,
+      message: 'Still waiting at "try" sub-step 1'
+    });
+  });
+
+  it('fails on a flow without a start step', () => {
+    expect(replayTestCase([], testCase(['success'], 'done'))).toEqual({
+      passed: false,
+      message: 'The flow has no start step to answer'
+    });
+  });
+
+  it('fails when automatic branches loop without end', () => {
+    const steps = [
+      step('ping', [subStep('p', { kind: 'branch', condition: 'true', successAction: 'goto', successStepId: 'pong' })]),
+      step('pong', [subStep('q', { kind: 'branch', condition: 'true', successAction: 'goto', successStepId: 'ping' })])
+    ];
+    expect(replayTestCase(steps, testCase([], 'done')).message).toMatch(/^Automatic branches loop without end at "/);
+  });
+});
@@ -0,0 +1,222 @@
+import { Choice, Step, SubStep } from '../types/flow';
+import {
+  FlowPosition,
+  FlowRun,
+  RunOptions,
+  advance,
+  getChoiceLabel,
+  getChoices,
+  getCurrentSubStep,
+  isInput,
+  replayRun,
+  startRun
+} from './flowEngine';
+
+export const TEST_FILE_VERSION = '1.2';
+
+export interface TestCase {
+  id: string;
+  choices: Choice[];
+  // Titles of the steps answered along the way and the answers given, for reading the
+  // case without the flow
+  stepTitles: string[];
+  choiceLabels: string[];
+  expectedEndStepId: string;
+  expectedEndStepTitle: string;
+}
+
+export interface PathEnumerationOptions extends RunOptions {
+  // How many times a walk may come back to the same sub-step (0 = no repeats)
+  loopBound?: number;
+  // Enumeration stops once this many cases are found
+  maxPaths?: number;
+  // ...or once this many answers were tried. Branches cut by loopBound still cost a walk
+  // each, so flows full of loops and decisions could otherwise keep the page busy for long.
+  maxNodes?: number;
+}
+
+export interface PathEnumerationResult {
+  testCases: TestCase[];
+  // Branches abandoned because they went round a loop more than loopBound times, or
+  // because automatic branches looped on their own
+  cutLoops: number;
+  // Set when maxPaths or maxNodes stopped the walk before every path was tried
+  truncated: boolean;
+}
+
+export interface TestFile {
+  version: string;
+  flowName?: string;
+  generatedAt?: string;
+  loopBound?: number;
+  testCases: TestCase[];
+}
+
+export interface TestCaseResult {
+  passed: boolean;
+  actualEndStepTitle?: string;
+  message?: string;
+}
+
+const DEFAULT_MAX_PATHS = 500;
+const DEFAULT_MAX_NODES = 20000;
+
+const positionKey = (position: FlowPosition) => `${position.step.id}:${position.subStepIndex}`;
+
+// Free text and number inputs cannot be enumerated, so each is answered with one sample
+// value; branches that depend on them only follow the path that value leads to
+const pathChoices = (subStep: SubStep): Choice[] => {
+  if (isInput(subStep) && subStep.input?.type !== 'choice') {
+    return [{ value: subStep.input?.type === 'number' ? 0 : '' }];
+  }
+  return getChoices(subStep);
+};
+
+const toTestCase = (run: FlowRun, index: number): TestCase => {
+  const answered = run.history.filter(entry => entry.choiceIndex !== undefined);
+  return {
+    id: `TC-${index + 1}`,
+    choices: run.choices,
+    stepTitles: answered.map(entry => entry.step.title),
+    choiceLabels: answered.map(entry => getChoiceLabel(entry.step.subSteps[entry.subStepIndex], entry.choice)),
+    expectedEndStepId: run.endStep!.id,
+    expectedEndStepTitle: run.endStep!.title
+  };
+};
+
+// Depth-first walk over every answer of every sub-step from the start step, recording one
+// test case per distinct way of reaching the end of the flow
+export const enumeratePaths = (steps: Step[], options: PathEnumerationOptions = {}): PathEnumerationResult => {
+  const loopBound = options.loopBound ?? 1;
+  const maxPaths = options.maxPaths ?? DEFAULT_MAX_PATHS;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const result: PathEnumerationResult = { testCases: [], cutLoops: 0, truncated: false };
+
+  // A flow that ends before asking anything has no path worth a test case
+  const first = startRun(steps, options);
+  if (first.isComplete || !first.position) return result;
+
+  const visits = new Map<string, number>();
+  let explored = 0;
+
+  const walk = (run: FlowRun) => {
+    if (result.testCases.length >= maxPaths || explored >= maxNodes) {
+      result.truncated = true;
+      return;
+    }
+    explored++;
+    if (run.isComplete) {
+      result.testCases.push(toTestCase(run, result.testCases.length));
+      return;
+    }
+    if (!run.position || run.isStalled) {
+      result.cutLoops++;
+      return;
+    }
+
+    const key = positionKey(run.position);
+    const count = visits.get(key) ?? 0;
+    if (count > loopBound) {
+      result.cutLoops++;
+      return;
+    }
+    visits.set(key, count + 1);
+    pathChoices(getCurrentSubStep(run)!).forEach(choice => walk(advance(run, choice)));
+    visits.set(key, count);
+  };
+
+  walk(first);
+  return result;
+};
+
+// Plays a test case's choices against the flow and checks it ends where expected
+export const replayTestCase = (steps: Step[], testCase: TestCase, options: RunOptions = {}): TestCaseResult => {
+  const run = replayRun(steps, testCase.choices, options);
+  if (!run.isComplete && !run.position) {
+    return { passed: false, message: 'The flow has no start step to answer' };
+  }
+
+  const actualEndStepTitle = run.endStep?.title;
+  if (run.choices.length < testCase.choices.length) {
+    return {
+      passed: false,
+      actualEndStepTitle,
+      message: `Flow ended after ${run.choices.length} of ${testCase.choices.length} choices`
+    };
+  }
+  if (run.isStalled) {
+    return { passed: false, actualEndStepTitle, message: `Automatic branches loop without end at "${run.position!.step.title}"` };
+  }
+  if (!run.isComplete) {
+    const { step, subStepIndex } = run.position!;
+    return { passed: false, actualEndStepTitle, message: `Still waiting at "${step.title}" sub-step ${subStepIndex + 1}` };
+  }
+  if (run.endStep!.id !== testCase.expectedEndStepId) {
+    return { passed: false, actualEndStepTitle, message: `Ended at "${actualEndStepTitle}"` };
+  }
+  return { passed: true, actualEndStepTitle };
+};
+
+export const serializeTestFile = (testCases: TestCase[], flowName: string, loopBound: number): string => {
+  const file: TestFile = {
+    version: TEST_FILE_VERSION,
+    flowName,
+    generatedAt: new Date().toISOString(),
+    loopBound,
+    testCases
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const testCasesToCsv = (testCases: TestCase[]): string => {
+  const cell = (text: string) => /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  const rows = testCases.map(testCase => [
+    testCase.id,
+    testCase.choiceLabels.join(' '),
+    testCase.stepTitles.join(' > '),
+    testCase.expectedEndStepTitle
+  ]);
+  return [['Id', 'Choices', 'Steps', 'Expected end step'], ...rows].map(row => row.map(cell).join(',')).join('\n');
+};
+
+// Throws with a readable message when the text is not a test file
+export const parseTestFile = (text: string): TestFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const file = data as Partial<TestFile>;
+  if (!file || typeof file !== 'object' || !Array.isArray(file.testCases)) {
+    throw new Error('The file has no "testCases" list');
+  }
+  file.testCases.forEach((testCase, index) => {
+    const valid = typeof testCase?.id === 'string'
+      && Array.isArray(testCase.choices)
+      && testCase.choices.every(choice =>
+        choice === 'success'
+        || choice === 'failure'
+        || typeof (choice as { outcomeId?: unknown })?.outcomeId === 'string'
+        || ['string', 'number'].includes(typeof (choice as { value?: unknown })?.value)
+      )
+      && typeof testCase.expectedEndStepId === 'string';
+    if (!valid) throw new Error(`Test case ${index + 1} is missing its id, choices or expected end step`);
+  });
+  return {
+    version: file.version ?? TEST_FILE_VERSION,
+    flowName: file.flowName,
+    generatedAt: file.generatedAt,
+    loopBound: file.loopBound,
+    testCases: file.testCases.map(testCase => ({
+      ...testCase,
+      stepTitles: Array.isArray(testCase.stepTitles) ? testCase.stepTitles : [],
+      choiceLabels: Array.isArray(testCase.choiceLabels)
+        ? testCase.choiceLabels
+        : testCase.choices.map(choice =>
+          typeof choice === 'string' ? choice : 'outcomeId' in choice ? choice.outcomeId : String(choice.value)
+        ),
+      expectedEndStepTitle: testCase.expectedEndStepTitle ?? ''
+    }))
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { Step, SubStep } from '../types/flow';
+import { validateFlow } from './validation';
+
+const loopBack = (id: string): SubStep => ({
+  id,
+  content: id,
+  successAction: 'goto',
+  successStepId: 'start',
+  failureAction: 'goto',
+  failureStepId: 'start'
+});
+
+describe('validateFlow', () => {
+  it('reports a loop through the sub-steps of a terminal step', () => {
+    const steps: Step[] = [
+      { id: 'start', title: 'Start', type: 'normal', expanded: false, successStepId: 'done', subSteps: [
+        { id: 'check', content: 'check', successAction: 'next', failureAction: 'goto', failureStepId: 'start' }
+      ] },
+      { id: 'done', title: 'Done', type: 'success', expanded: false, subSteps: [loopBack('again')] }
+    ];
+    expect(validateFlow(steps).filter(issue => issue.code === 'loop-without-exit')).not.toHaveLength(0);
+  });
+
+  it('treats a terminal step without sub-steps as an exit', () => {
+    const steps: Step[] = [
+      { id: 'start', title: 'Start', type: 'normal', expanded: false, successStepId: 'done', subSteps: [
+        { id: 'check', content: 'check', successAction: 'next', failureAction: 'goto', failureStepId: 'start' }
+      ] },
+      { id: 'done', title: 'Done', type: 'success', expanded: false, subSteps: [] }
+    ];
+    expect(validateFlow(steps).filter(issue => issue.code === 'loop-without-exit')).toEqual([]);
+  });
+});
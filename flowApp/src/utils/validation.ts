@@ -0,0 +1,371 @@
+import { Step, StepResult } from '../types/flow';
+import { getExpressionVariables, parseExpression } from './expression';
+import { RunOptions, findSubFlowCycle, getStartStep, isSubFlowStep } from './flowEngine';
+import { getStepEdges } from './graph';
+import { VARIABLE_NAME_PATTERN, getFlowVariables, getPlaceholderNames } from './variables';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+  | 'dangling-reference'
+  | 'missing-goto-target'
+  | 'unreachable-step'
+  | 'empty-title'
+  | 'empty-sub-step'
+  | 'decision-without-outcomes'
+  | 'unnamed-outcome'
+  | 'invalid-variable-name'
+  | 'input-without-options'
+  | 'invalid-condition'
+  | 'unknown-variable'
+  | 'sub-flow-not-set'
+  | 'missing-sub-flow'
+  | 'recursive-sub-flow'
+  | 'loop-without-exit'
+  | 'no-terminal-step';
+
+export interface FlowIssue {
+  id: string;
+  code: IssueCode;
+  severity: IssueSeverity;
+  message: string;
+  stepId?: string;
+  subStepId?: string;
+}
+
+const describeStep = (step: Step) => step.title.trim() ? `"${step.title}"` : 'Untitled step';
+
+const outcomeLabel = (kind: StepResult) => kind === 'success' ? 'success' : 'failure';
+
+// A step ends the flow when it has nothing to walk through, one of its outcomes falls
+// through to a step-level link that is not set, or one of its decisions has an outcome
+// without a target (see applyChoice in flowEngine). Success and failure steps with
+// sub-steps are walked like any other step, so their type alone is no exit.
+const hasExit = (step: Step) => {
+  // A sub-flow step continues on its own links whichever way the sub-flow ends
+  if (isSubFlowStep(step)) return !step.successStepId || !step.failureStepId;
+  if (step.subSteps.length === 0) return true;
+  const checks = step.subSteps.filter(subStep => subStep.kind !== 'decision' && subStep.kind !== 'input');
+  const decisions = step.subSteps.filter(subStep => subStep.kind === 'decision');
+  if (decisions.some(subStep => (subStep.outcomes ?? []).some(outcome => !outcome.targetStepId))) return true;
+  const lastSubStep = step.subSteps[step.subSteps.length - 1];
+  if (!step.successStepId && lastSubStep.kind !== 'decision' && lastSubStep.successAction === 'next') return true;
+  if (!step.failureStepId && checks.some(subStep => subStep.failureAction === 'next')) return true;
+  return false;
+};
+
+const checkReferences = (steps: Step[], stepIds: Set<string>): FlowIssue[] => {
+  const issues: FlowIssue[] = [];
+
+  steps.forEach(step => {
+    (['success', 'failure'] as const).forEach(kind => {
+      const targetId = kind === 'success' ? step.successStepId : step.failureStepId;
+      if (targetId && !stepIds.has(targetId)) {
+        issues.push({
+          id: `dangling-${step.id}-${kind}`,
+          code: 'dangling-reference',
+          severity: 'error',
+          message: `${describeStep(step)} links on ${outcomeLabel(kind)} to a step that no longer exists`,
+          stepId: step.id
+        });
+      }
+    });
+
+    step.subSteps.forEach((subStep, index) => {
+      if (subStep.kind === 'decision') {
+        (subStep.outcomes ?? []).forEach(outcome => {
+          if (outcome.targetStepId && !stepIds.has(outcome.targetStepId)) {
+            issues.push({
+              id: `dangling-${subStep.id}-${outcome.id}`,
+              code: 'dangling-reference',
+              severity: 'error',
+              message: `Outcome "${outcome.label}" of sub-step ${index + 1} of ${describeStep(step)} links to a step that no longer exists`,
+              stepId: step.id,
+              subStepId: subStep.id
+            });
+          }
+        });
+        return;
+      }
+
+      (['success', 'failure'] as const).forEach(kind => {
+        if (kind === 'failure' && subStep.kind === 'input') return;
+        const action = kind === 'success' ? subStep.successAction : subStep.failureAction;
+        const targetId = kind === 'success' ? subStep.successStepId : subStep.failureStepId;
+        if (action !== 'goto') return;
+
+        if (!targetId) {
+          issues.push({
+            id: `missing-goto-${subStep.id}-${kind}`,
+            code: 'missing-goto-target',
+            severity: 'error',
+            message: `Sub-step ${index + 1} of ${describeStep(step)} goes to a step on ${outcomeLabel(kind)} but none is selected`,
+            stepId: step.id,
+            subStepId: subStep.id
+          });
+        } else if (!stepIds.has(targetId)) {
+          issues.push({
+            id: `dangling-${subStep.id}-${kind}`,
+            code: 'dangling-reference',
+            severity: 'error',
+            message: `Sub-step ${index + 1} of ${describeStep(step)} links on ${outcomeLabel(kind)} to a step that no longer exists`,
+            stepId: step.id,
+            subStepId: subStep.id
+          });
+        }
+      });
+    });
+  });
+
+  return issues;
+};
+
+const checkContent = (steps: Step[]): FlowIssue[] => {
+  const issues: FlowIssue[] = [];
+
+  steps.forEach((step, stepIndex) => {
+    if (!step.title.trim()) {
+      issues.push({
+        id: `empty-title-${step.id}`,
+        code: 'empty-title',
+        severity: 'warning',
+        message: `Step ${stepIndex + 1} has no title`,
+        stepId: step.id
+      });
+    }
+
+    step.subSteps.forEach((subStep, index) => {
+      if (!subStep.content.trim()) {
+        issues.push({
+          id: `empty-sub-step-${subStep.id}`,
+          code: 'empty-sub-step',
+          severity: 'warning',
+          message: `Sub-step ${index + 1} of ${describeStep(step)} has no content`,
+          stepId: step.id,
+          subStepId: subStep.id
+        });
+      }
+
+      if (subStep.kind !== 'decision') return;
+      const outcomes = subStep.outcomes ?? [];
+      if (outcomes.length === 0) {
+        issues.push({
+          id: `no-outcomes-${subStep.id}`,
+          code: 'decision-without-outcomes',
+          severity: 'error',
+          message: `Sub-step ${index + 1} of ${describeStep(step)} is a decision without outcomes`,
+          stepId: step.id,
+          subStepId: subStep.id
+        });
+      }
+      outcomes.forEach((outcome, outcomeIndex) => {
+        if (outcome.label.trim()) return;
+        issues.push({
+          id: `unnamed-outcome-${subStep.id}-${outcome.id}`,
+          code: 'unnamed-outcome',
+          severity: 'warning',
+          message: `Outcome ${outcomeIndex + 1} of sub-step ${index + 1} of ${describeStep(step)} has no name`,
+          stepId: step.id,
+          subStepId: subStep.id
+        });
+      });
+    });
+  });
+
+  return issues;
+};
+
+// Inputs need a usable variable, branches a condition that parses, and every {{name}} or
+// condition variable has to be set by some input
+const checkVariables = (steps: Step[]): FlowIssue[] => {
+  const issues: FlowIssue[] = [];
+  const declared = new Set(getFlowVariables(steps).map(variable => variable.name));
+
+  const checkNames = (names: string[], id: string, where: string, step: Step, subStepId?: string) => {
+    names.filter(name => !declared.has(name)).forEach(name => {
+      issues.push({
+        id: `unknown-variable-${id}-${name}`,
+        code: 'unknown-variable',
+        severity: 'warning',
+        message: `${where} uses "${name}", which no input sets`,
+        stepId: step.id,
+        subStepId
+      });
+    });
+  };
+
+  steps.forEach(step => {
+    checkNames(getPlaceholderNames(step.title), step.id, `The title of ${describeStep(step)}`, step);
+
+    step.subSteps.forEach((subStep, index) => {
+      const where = `Sub-step ${index + 1} of ${describeStep(step)}`;
+      checkNames(getPlaceholderNames(subStep.content), subStep.id, where, step, subStep.id);
+
+      if (subStep.kind === 'input') {
+        const variable = subStep.input?.variable.trim() ?? '';
+        if (!VARIABLE_NAME_PATTERN.test(variable)) {
+          issues.push({
+            id: `invalid-variable-${subStep.id}`,
+            code: 'invalid-variable-name',
+            severity: 'error',
+            message: variable
+              ? `${where} stores its answer in "${variable}", which is not a valid variable name`
+              : `${where} is an input without a variable name`,
+            stepId: step.id,
+            subStepId: subStep.id
+          });
+        }
+        if (subStep.input?.type === 'choice' && !(subStep.input.options ?? []).some(option => option.trim())) {
+          issues.push({
+            id: `no-options-${subStep.id}`,
+            code: 'input-without-options',
+            severity: 'error',
+            message: `${where} is a choice input without options`,
+            stepId: step.id,
+            subStepId: subStep.id
+          });
+        }
+      }
+
+      if (subStep.kind === 'branch') {
+        try {
+          const names = getExpressionVariables(parseExpression(subStep.condition ?? ''));
+          checkNames(names, `${subStep.id}-condition`, `The condition of sub-step ${index + 1} of ${describeStep(step)}`, step, subStep.id);
+        } catch (error) {
+          issues.push({
+            id: `invalid-condition-${subStep.id}`,
+            code: 'invalid-condition',
+            severity: 'error',
+            message: `${where} has an invalid condition: ${(error as Error).message}`,
+            stepId: step.id,
+            subStepId: subStep.id
+          });
+        }
+      }
+    });
+  });
+
+  return issues;
+};
+
+// Sub-flow steps need a flow to call that exists and never calls back into this flow
+const checkSubFlows = (steps: Step[], { flowId, resolveFlow }: RunOptions): FlowIssue[] => {
+  const issues: FlowIssue[] = [];
+
+  steps.filter(isSubFlowStep).forEach(step => {
+    if (!step.subFlowId) {
+      issues.push({
+        id: `sub-flow-not-set-${step.id}`,
+        code: 'sub-flow-not-set',
+        severity: 'error',
+        message: `${describeStep(step)} does not say which flow to call`,
+        stepId: step.id
+      });
+      return;
+    }
+    if (!resolveFlow) return;
+
+    const flow = resolveFlow(step.subFlowId);
+    if (!flow) {
+      issues.push({
+        id: `missing-sub-flow-${step.id}`,
+        code: 'missing-sub-flow',
+        severity: 'error',
+        message: `${describeStep(step)} calls a flow that no longer exists`,
+        stepId: step.id
+      });
+      return;
+    }
+    if (!flowId) return;
+
+    const cycle = flow.id === flowId ? [] : findSubFlowCycle(flowId, flow.steps, resolveFlow);
+    if (cycle) {
+      issues.push({
+        id: `recursive-sub-flow-${step.id}`,
+        code: 'recursive-sub-flow',
+        severity: 'error',
+        message: `${describeStep(step)} calls ${[flow.name, ...cycle].map(name => `"${name}"`).join(' → ')}, which never ends`,
+        stepId: step.id
+      });
+    }
+  });
+
+  return issues;
+};
+
+const checkReachability = (steps: Step[]): FlowIssue[] => {
+  const issues: FlowIssue[] = [];
+  const edges = getStepEdges(steps);
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, string[]>();
+  edges.forEach(edge => {
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge.target]);
+    incoming.set(edge.target, [...(incoming.get(edge.target) ?? []), edge.source]);
+  });
+
+  const walk = (startIds: string[], neighbours: Map<string, string[]>) => {
+    const visited = new Set<string>(startIds);
+    const queue = [...startIds];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      (neighbours.get(id) ?? []).forEach(next => {
+        if (!visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      });
+    }
+    return visited;
+  };
+
+  const reachable = walk([getStartStep(steps)!.id], outgoing);
+  const canExit = walk(steps.filter(hasExit).map(step => step.id), incoming);
+
+  steps.forEach(step => {
+    if (!reachable.has(step.id)) {
+      issues.push({
+        id: `unreachable-${step.id}`,
+        code: 'unreachable-step',
+        severity: 'warning',
+        message: `${describeStep(step)} cannot be reached from the start step`,
+        stepId: step.id
+      });
+    } else if (!canExit.has(step.id)) {
+      issues.push({
+        id: `loop-${step.id}`,
+        code: 'loop-without-exit',
+        severity: 'error',
+        message: `${describeStep(step)} is part of a loop that never reaches the end of the flow`,
+        stepId: step.id
+      });
+    }
+  });
+
+  return issues;
+};
+
+// Runs every structural check over the flow; errors come before warnings. Sub-flow calls
+// are only checked against the library when a resolver is given.
+export const validateFlow = (steps: Step[], options: RunOptions = {}): FlowIssue[] => {
+  if (steps.length === 0) return [];
+
+  const stepIds = new Set(steps.map(step => step.id));
+  const issues = [
+    ...checkReferences(steps, stepIds),
+    ...checkReachability(steps),
+    ...checkContent(steps),
+    ...checkVariables(steps),
+    ...checkSubFlows(steps, options)
+  ];
+
+  if (!steps.some(step => step.type === 'success' || step.type === 'failure')) {
+    issues.push({
+      id: 'no-terminal-step',
+      code: 'no-terminal-step',
+      severity: 'warning',
+      message: 'The flow has no terminal success or failure step'
+    });
+  }
+
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
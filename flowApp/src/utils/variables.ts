@@ -0,0 +1,47 @@
+import { InputPrompt, Step, VariableType, VariableValue } from '../types/flow';
+
+// Variables belong to the whole flow; each one is declared by the input sub-steps that set it
+export interface FlowVariable {
+  name: string;
+  type: VariableType;
+  options?: string[];
+  // Sub-steps that ask for the variable, in flow order
+  subStepIds: string[];
+}
+
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export const getFlowVariables = (steps: Step[]): FlowVariable[] => {
+  const variables = new Map<string, FlowVariable>();
+  steps.forEach(step => step.subSteps.forEach(subStep => {
+    const name = subStep.kind === 'input' ? subStep.input?.variable.trim() : undefined;
+    if (!name || !subStep.input) return;
+    const variable = variables.get(name) ?? { name, type: subStep.input.type, options: subStep.input.options, subStepIds: [] };
+    variable.subStepIds.push(subStep.id);
+    variables.set(name, variable);
+  }));
+  return Array.from(variables.values());
+};
+
+// Names referenced as {{name}} in a piece of text
+export const getPlaceholderNames = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+
+// Replaces {{name}} with the variable's value; placeholders without a value are left as typed
+export const interpolate = (text: string, variables: Record<string, VariableValue>): string =>
+  text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? String(variables[name]) : placeholder
+  );
+
+// Converts what the operator typed into the variable's value; undefined when it does not fit the input
+export const parseInputValue = (input: InputPrompt, text: string): VariableValue | undefined => {
+  if (input.type === 'number') {
+    return text.trim() !== '' && !isNaN(Number(text)) ? Number(text) : undefined;
+  }
+  if (input.type === 'choice') {
+    return (input.options ?? []).includes(text) ? text : undefined;
+  }
+  return text;
+};
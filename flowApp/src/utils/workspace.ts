@@ -0,0 +1,101 @@
+import { Step } from '../types/flow';
+import { FlowResolver } from './flowEngine';
+import { generateId } from './id';
+import { writeStorage } from './storage';
+
+// Single-flow key used before the workspace existed; still read once for migration
+const LEGACY_STORAGE_KEY = 'flowDiagramConfig';
+const WORKSPACE_STORAGE_KEY = 'flowWorkspace';
+
+export interface FlowMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Workspace {
+  flows: FlowMeta[];
+  activeFlowId: string;
+}
+
+const flowStorageKey = (flowId: string) => `${LEGACY_STORAGE_KEY}:${flowId}`;
+
+export const createFlowMeta = (name: string): FlowMeta => {
+  const now = Date.now();
+  return { id: generateId(), name, createdAt: now, updatedAt: now };
+};
+
+export const loadFlowSteps = (flowId: string): Step[] => {
+  const saved = localStorage.getItem(flowStorageKey(flowId));
+  return saved ? JSON.parse(saved) : [];
+};
+
+// 'unchanged' when the stored copy is already identical, so callers only bump timestamps on real
+// edits; 'failed' when the browser refused to store it, which in practice means storage is full
+export type FlowSaveResult = 'saved' | 'unchanged' | 'failed';
+
+// Browsers give each site about five million characters of localStorage and offer no way to ask
+// for the exact figure, so this stays a little under it
+const STORAGE_BUDGET = 5_000_000;
+
+export const saveFlowSteps = (flowId: string, steps: Step[]): FlowSaveResult => {
+  const serialized = JSON.stringify(steps);
+  if (localStorage.getItem(flowStorageKey(flowId)) === serialized) return 'unchanged';
+  return writeStorage(flowStorageKey(flowId), serialized) ? 'saved' : 'failed';
+};
+
+// Characters that can still be stored, counting keys and values the way browsers do
+export const getRemainingStorage = (): number => {
+  let used = 0;
+  for (let index = 0; index < localStorage.length; index++) {
+    const key = localStorage.key(index) ?? '';
+    used += key.length + (localStorage.getItem(key)?.length ?? 0);
+  }
+  return Math.max(0, STORAGE_BUDGET - used);
+};
+
+export const deleteFlowSteps = (flowId: string) => {
+  localStorage.removeItem(flowStorageKey(flowId));
+};
+
+export const loadWorkspace = (): Workspace => {
+  const saved = localStorage.getItem(WORKSPACE_STORAGE_KEY);
+  if (saved) {
+    const workspace: Workspace = JSON.parse(saved);
+    if (workspace.flows.length > 0) return workspace;
+  }
+
+  // First run: adopt the legacy single flow, if any, as the first library entry
+  const flow = createFlowMeta('My Flow');
+  const legacySteps = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacySteps && writeStorage(flowStorageKey(flow.id), legacySteps)) {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+  const workspace = { flows: [flow], activeFlowId: flow.id };
+  saveWorkspace(workspace);
+  return workspace;
+};
+
+// False when storage is full
+export const saveWorkspace = (workspace: Workspace): boolean =>
+  writeStorage(WORKSPACE_STORAGE_KEY, JSON.stringify(workspace));
+
+export const touchFlow = (workspace: Workspace, flowId: string): Workspace => ({
+  ...workspace,
+  flows: workspace.flows.map(flow =>
+    flow.id === flowId ? { ...flow, updatedAt: Date.now() } : flow
+  )
+});
+
+// Resolves sub-flow calls against the library; the active flow's steps come from the editor
+// because its latest edits may not be saved yet
+export const createFlowResolver = (workspace: Workspace, activeSteps: Step[]): FlowResolver => flowId => {
+  const flow = workspace.flows.find(f => f.id === flowId);
+  if (!flow) return undefined;
+  return {
+    id: flow.id,
+    name: flow.name,
+    steps: flow.id === workspace.activeFlowId ? activeSteps : loadFlowSteps(flow.id)
+  };
+};